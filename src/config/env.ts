@@ -32,6 +32,18 @@ const envSchema = z.object({
   RATE_LIMIT_MAX: z.coerce.number().int().min(1).default(100),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().min(1000).default(60000),
 
+  // MCP Streaming Configuration
+  MCP_EVENT_STORE_MAX_EVENTS: z.coerce.number().int().min(0).default(1000),
+  MCP_EVENT_STORE_TTL_MS: z.coerce.number().int().min(0).default(300000),
+  NOTE_WATCH_INTERVAL_MS: z.coerce.number().int().min(1000).default(30000),
+
+  // MCP Prompts Configuration
+  PROMPTS_DIR: z.string().optional(),
+
+  // Stdio Transport Configuration (--stdio)
+  KURA_ACCESS_TOKEN: z.string().min(1).optional(),
+  KURA_ACCESS_TOKEN_FILE: z.string().min(1).optional(),
+
   // Logging Configuration
   LOG_LEVEL: z
     .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace'])
@@ -43,13 +55,34 @@ const envSchema = z.object({
  */
 export type Env = z.infer<typeof envSchema>;
 
+/**
+ * Whether the server speaks MCP over stdin/stdout (--stdio) instead of HTTP
+ */
+export const isStdioMode = process.argv.includes('--stdio');
+
+/**
+ * Values for variables only the HTTP server uses
+ *
+ * The stdio transport has no OAuth layer and no public URL, so local users
+ * do not have to set them.
+ */
+const STDIO_DEFAULTS = {
+  BASE_URL: 'http://localhost',
+  KOAUTH_URL: 'http://localhost',
+  KOAUTH_JWKS_URL: 'http://localhost/.well-known/jwks.json',
+  KOAUTH_CLIENT_REGISTRATION_URL: 'http://localhost/oauth/register',
+  KURA_DATABASE_URL: 'postgresql://localhost/unused',
+};
+
 /**
  * Parse and validate environment variables
  * Throws an error if validation fails
  */
 function validateEnv(): Env {
   try {
-    const parsed = envSchema.parse(process.env);
+    const parsed = envSchema.parse(
+      isStdioMode ? { ...STDIO_DEFAULTS, ...process.env } : process.env
+    );
     return parsed;
   } catch (error) {
     if (error instanceof z.ZodError) {
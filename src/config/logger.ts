@@ -1,5 +1,12 @@
 import pino from 'pino';
-import { config, isDevelopment } from './env';
+import { config, isDevelopment, isStdioMode } from './env';
+
+/**
+ * File descriptor logs are written to
+ *
+ * In stdio mode stdout carries the MCP protocol, so logs go to stderr.
+ */
+const LOG_FD = isStdioMode ? 2 : 1;
 
 /**
  * Custom serializers to sanitize sensitive data from logs
@@ -55,6 +62,9 @@ const serializers = {
 
 /**
  * Create Pino logger instance with appropriate configuration
+ *
+ * Production logs are written to LOG_FD; the development transport gets it
+ * as its destination option.
  */
 export const logger = pino({
   level: config.LOG_LEVEL,
@@ -72,6 +82,7 @@ export const logger = pino({
             ignore: 'pid,hostname',
             singleLine: false,
             messageFormat: '{levelLabel} - {msg}',
+            destination: LOG_FD,
           },
         },
       }
@@ -90,7 +101,7 @@ export const logger = pino({
     env: config.NODE_ENV,
     ...(isDevelopment ? {} : { pid: process.pid, hostname: require('os').hostname() }),
   },
-});
+}, isDevelopment ? undefined : pino.destination(LOG_FD));
 
 /**
  * Create child logger with additional context
@@ -1,10 +1,19 @@
 import { buildServer, startServer } from './server';
 import { logStartup } from './config/logger';
+import { isStdioMode } from './config/env';
+import { startStdioServer } from './stdio';
 
 /**
  * Main entry point for KOmcp MCP Server
+ *
+ * Serves HTTP by default; with --stdio it speaks MCP over stdin/stdout.
  */
 async function main(): Promise<void> {
+  if (isStdioMode) {
+    await startStdioServer();
+    return;
+  }
+
   // Log startup information
   logStartup();
 
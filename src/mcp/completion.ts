@@ -0,0 +1,387 @@
+/**
+ * Argument completion (completion/complete)
+ *
+ * Suggests values for prompt arguments, resource template variables and,
+ * as a KOmcp extension (ref/tool), tool arguments:
+ * - Note IDs: recent notes plus a search for the typed text, matched by ID
+ *   prefix and title. Titles are returned as labels in _meta.
+ * - Tags: tags of recent notes and search results, matched by prefix
+ *
+ * Kura results are cached per user for a short time so completion stays
+ * fast while the user types.
+ */
+
+import {
+  getKuraClient,
+  KuraApiError,
+  KuraRecentNotesResponse,
+  KuraSearchResult,
+} from '../services/kura-client';
+import { CompleteResult, CompletionReference } from '../types/mcp';
+import { promptCatalog } from './prompts';
+import { RESOURCE_TEMPLATES } from './resources';
+import { getTool } from './tools';
+import { ArgumentCompletion } from './tools/tool';
+
+/**
+ * Maximum number of values in one completion result (MCP limit)
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * How long cached Kura results are reused
+ */
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Cached search queries kept per user
+ */
+const MAX_CACHED_SEARCHES = 20;
+
+/**
+ * Shorter values are not worth a Kura search
+ */
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Results requested from Kura per completion search
+ */
+const SEARCH_LIMIT = 20;
+
+/**
+ * Completable variables of the resource templates
+ */
+const RESOURCE_TEMPLATE_ARGUMENTS: Record<string, Record<string, ArgumentCompletion>> = {
+  'kura://notes/{id}': { id: 'note_id' },
+  'kura://tags/{tag}': { tag: 'tag' },
+};
+
+/**
+ * Error thrown when the completion reference names nothing this server knows
+ */
+export class UnknownCompletionReferenceError extends Error {
+  constructor(ref: CompletionReference) {
+    super(`Unknown completion reference: ${ref.type} ${'uri' in ref ? ref.uri : ref.name}`);
+    this.name = 'UnknownCompletionReferenceError';
+  }
+}
+
+/**
+ * Caller details needed to query Kura
+ */
+export interface CompletionContext {
+  userId: string;
+  accessToken: string;
+  /** Aborted when the client cancels the completion request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Suggested value with an optional label
+ */
+interface Candidate {
+  value: string;
+  label?: string;
+}
+
+/**
+ * Cached Kura result
+ */
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+  /** Aborts the Kura request */
+  controller: AbortController;
+  /** Callers still waiting for the value */
+  waiters: number;
+  /** Removes the entry from the cache */
+  drop: () => void;
+}
+
+/**
+ * Cached Kura results of one user
+ */
+interface UserCache {
+  recent?: CacheEntry<KuraRecentNotesResponse>;
+  searches: Map<string, CacheEntry<KuraSearchResult[]>>;
+  lastUsedAt: number;
+}
+
+/**
+ * Short-lived per-user cache of the Kura calls made for completion
+ *
+ * Entries hold promises, so concurrent completions share one request. A
+ * cancelled caller stops waiting right away; the Kura request itself is
+ * aborted once every caller sharing it has cancelled.
+ * Failed requests are not cached.
+ */
+export class CompletionCache {
+  private users = new Map<string, UserCache>();
+
+  constructor(private ttlMs: number) {}
+
+  recentNotes(ctx: CompletionContext): Promise<KuraRecentNotesResponse> {
+    const cache = this.userCache(ctx.userId);
+    if (!isFresh(cache.recent)) {
+      const entry = this.entry(
+        (signal) => getKuraClient().listRecentNotes(ctx.accessToken, signal),
+        () => {
+          if (cache.recent === entry) cache.recent = undefined;
+        }
+      );
+      cache.recent = entry;
+    }
+    return join(cache.recent!, ctx.signal);
+  }
+
+  search(ctx: CompletionContext, query: string): Promise<KuraSearchResult[]> {
+    const cache = this.userCache(ctx.userId);
+    const key = query.toLowerCase();
+    let entry = cache.searches.get(key);
+
+    if (!isFresh(entry)) {
+      const created = this.entry(
+        (signal) =>
+          getKuraClient()
+            .search(ctx.accessToken, { query, limit: SEARCH_LIMIT }, signal)
+            .then((response) => response.results),
+        () => {
+          if (cache.searches.get(key) === created) cache.searches.delete(key);
+        }
+      );
+
+      cache.searches.delete(key);
+      cache.searches.set(key, created);
+      entry = created;
+
+      // Drop the oldest queries once the limit is reached
+      while (cache.searches.size > MAX_CACHED_SEARCHES) {
+        cache.searches.delete(cache.searches.keys().next().value!);
+      }
+    }
+
+    return join(entry!, ctx.signal);
+  }
+
+  private entry<T>(request: (signal: AbortSignal) => Promise<T>, drop: () => void): CacheEntry<T> {
+    const controller = new AbortController();
+    const value = request(controller.signal);
+    value.catch(drop);
+    return { value, expiresAt: Date.now() + this.ttlMs, controller, waiters: 0, drop };
+  }
+
+  private userCache(userId: string): UserCache {
+    const now = Date.now();
+
+    // Forget users that have not completed anything for a while
+    this.users.forEach((cache, id) => {
+      if (cache.lastUsedAt + this.ttlMs < now) {
+        this.users.delete(id);
+      }
+    });
+
+    let cache = this.users.get(userId);
+    if (!cache) {
+      cache = { searches: new Map(), lastUsedAt: now };
+      this.users.set(userId, cache);
+    }
+    cache.lastUsedAt = now;
+    return cache;
+  }
+}
+
+/**
+ * Wait for a cached value until the caller's signal aborts
+ *
+ * The last caller to cancel aborts the Kura request and drops the entry, so
+ * later completions start a new request.
+ */
+function join<T>(entry: CacheEntry<T>, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(cancelled(signal));
+  }
+
+  entry.waiters++;
+  if (!signal) {
+    return entry.value;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      if (--entry.waiters === 0) {
+        entry.drop();
+        entry.controller.abort(signal.reason);
+      }
+      reject(cancelled(signal));
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.value.finally(() => signal.removeEventListener('abort', onAbort)).then(resolve, reject);
+  });
+}
+
+/**
+ * The error a cancelled completion rejects with, as for cancelled Kura requests
+ */
+function cancelled(signal: AbortSignal): KuraApiError {
+  return new KuraApiError('Kura request was cancelled', undefined, signal.reason);
+}
+
+/**
+ * Shared completion cache
+ */
+const completionCache = new CompletionCache(CACHE_TTL_MS);
+
+/**
+ * Complete an argument value
+ *
+ * @param ctx - Caller details for Kura requests
+ * @param ref - Prompt, resource template or tool the argument belongs to
+ * @param argument - Argument name and the value typed so far
+ * @throws {UnknownCompletionReferenceError} If the reference is unknown
+ * @throws {PromptNotFoundError} If the referenced prompt does not exist
+ * @throws {KuraApiError} If a Kura API call fails
+ */
+export async function completeArgument(
+  ctx: CompletionContext,
+  ref: CompletionReference,
+  argument: { name: string; value: string }
+): Promise<CompleteResult> {
+  let candidates: Candidate[];
+
+  switch (ref.type) {
+    case 'ref/prompt': {
+      const arg = await promptCatalog.getArgument(ref.name, argument.name);
+      if (arg?.type === 'note_id' || arg?.type === 'tag') {
+        candidates = await completeKind(ctx, arg.type, argument.value);
+      } else {
+        candidates = arg?.default ? matchPrefix([{ value: arg.default }], argument.value) : [];
+      }
+      break;
+    }
+
+    case 'ref/resource': {
+      if (!RESOURCE_TEMPLATES.some((template) => template.uriTemplate === ref.uri)) {
+        throw new UnknownCompletionReferenceError(ref);
+      }
+      const kind = RESOURCE_TEMPLATE_ARGUMENTS[ref.uri]?.[argument.name];
+      candidates = kind ? await completeKind(ctx, kind, argument.value) : [];
+      break;
+    }
+
+    case 'ref/tool': {
+      const tool = getTool(ref.name);
+      if (!tool) {
+        throw new UnknownCompletionReferenceError(ref);
+      }
+      const kind = tool.completions?.[argument.name];
+      candidates = kind ? await completeKind(ctx, kind, argument.value) : [];
+      break;
+    }
+  }
+
+  return toCompleteResult(candidates);
+}
+
+/**
+ * Complete a value of the given kind
+ */
+function completeKind(
+  ctx: CompletionContext,
+  kind: ArgumentCompletion,
+  value: string
+): Promise<Candidate[]> {
+  return kind === 'note_id' ? completeNoteIds(ctx, value) : completeTags(ctx, value);
+}
+
+/**
+ * Suggest note IDs: ID prefix matches first, then title matches, then
+ * notes the search found by content
+ */
+async function completeNoteIds(ctx: CompletionContext, value: string): Promise<Candidate[]> {
+  const needle = value.trim().toLowerCase();
+  const [recentNotes, searchResults] = await Promise.all([
+    completionCache.recentNotes(ctx),
+    needle.length >= MIN_SEARCH_LENGTH ? completionCache.search(ctx, value.trim()) : [],
+  ]);
+
+  const searchHits = new Set(searchResults.map((result) => result.id));
+  const notes = new Map<string, string>();
+  recentNotes.notes.forEach((note) => notes.set(note.id, note.title));
+  searchResults.forEach((result) => {
+    if (!notes.has(result.id)) {
+      notes.set(result.id, result.title);
+    }
+  });
+
+  const rank = (id: string, title: string): number => {
+    if (id.toLowerCase().startsWith(needle)) return 0;
+    if (title.toLowerCase().includes(needle)) return 1;
+    if (searchHits.has(id)) return 2;
+    return -1;
+  };
+
+  return [...notes.entries()]
+    .map(([id, title]) => ({ value: id, label: title, rank: rank(id, title) }))
+    .filter((note) => note.rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ value: id, label }) => ({ value: id, label }));
+}
+
+/**
+ * Suggest existing tags, most used first
+ */
+async function completeTags(ctx: CompletionContext, value: string): Promise<Candidate[]> {
+  const needle = value.trim();
+  const [recentNotes, searchResults] = await Promise.all([
+    completionCache.recentNotes(ctx),
+    needle.length >= MIN_SEARCH_LENGTH ? completionCache.search(ctx, needle) : [],
+  ]);
+
+  const counts = new Map<string, number>();
+  const count = (tags?: string[]): void =>
+    tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+
+  recentNotes.notes.forEach((note) => count(note.tags));
+  searchResults.forEach((result) => count(result.metadata.tags));
+
+  const tags = [...counts.entries()]
+    .sort(([tagA, a], [tagB, b]) => b - a || tagA.localeCompare(tagB))
+    .map(([tag]) => ({ value: tag }));
+
+  return matchPrefix(tags, needle);
+}
+
+/**
+ * Keep candidates whose value starts with the typed text (case-insensitive)
+ */
+function matchPrefix(candidates: Candidate[], value: string): Candidate[] {
+  const needle = value.trim().toLowerCase();
+  return candidates.filter((candidate) => candidate.value.toLowerCase().startsWith(needle));
+}
+
+/**
+ * Build the completion result, capped at the MCP limit
+ */
+function toCompleteResult(candidates: Candidate[]): CompleteResult {
+  const shown = candidates.slice(0, MAX_COMPLETION_VALUES);
+  const labels = Object.fromEntries(
+    shown.filter((c) => c.label !== undefined).map((c) => [c.value, c.label!])
+  );
+
+  return {
+    completion: {
+      values: shown.map((candidate) => candidate.value),
+      total: candidates.length,
+      hasMore: candidates.length > shown.length,
+    },
+    ...(Object.keys(labels).length > 0 && { _meta: { labels } }),
+  };
+}
+
+/**
+ * Check whether a cache entry exists and has not expired
+ */
+function isFresh<T>(entry: CacheEntry<T> | undefined): boolean {
+  return entry !== undefined && entry.expiresAt > Date.now();
+}
@@ -0,0 +1,197 @@
+/**
+ * Confirmation of destructive tool calls
+ *
+ * Before a destructive tool changes anything, the user confirms what is
+ * about to happen:
+ * - Clients with the elicitation capability get an elicitation/create
+ *   request. The call only goes ahead if the user accepts and confirms.
+ * - Other clients get a CONFIRMATION_REQUIRED error carrying a short-lived
+ *   confirmation token. The call goes ahead when it is repeated with that
+ *   token, which is bound to the user, the tool and the target of the call.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { DomainError, ErrorCode } from './errors';
+import { JsonRpcId } from './protocol';
+import { ClientRequestError, McpSession } from './session';
+
+/**
+ * How long a confirmation token can be used
+ */
+const CONFIRMATION_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Confirmation token handed out by the two-step flow
+ */
+interface IssuedToken {
+  userId: string;
+  toolName: string;
+  subject: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of confirmation tokens
+ *
+ * Tokens are single-use and expire after CONFIRMATION_TOKEN_TTL_MS.
+ */
+export class ConfirmationTokenStore {
+  private tokens = new Map<string, IssuedToken>();
+
+  /**
+   * Issue a token confirming one call of a tool on one subject
+   */
+  issue(userId: string, toolName: string, subject: string): { token: string; expiresAt: Date } {
+    const now = Date.now();
+    this.prune(now);
+
+    const token = randomBytes(18).toString('base64url');
+    const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS;
+    this.tokens.set(token, { userId, toolName, subject, expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Use up a token
+   *
+   * @returns false if the token is unknown, expired or was issued for
+   *   another user, tool or subject
+   */
+  redeem(token: string, userId: string, toolName: string, subject: string): boolean {
+    this.prune(Date.now());
+
+    const issued = this.tokens.get(token);
+    if (
+      !issued ||
+      issued.userId !== userId ||
+      issued.toolName !== toolName ||
+      issued.subject !== subject
+    ) {
+      return false;
+    }
+
+    this.tokens.delete(token);
+    return true;
+  }
+
+  private prune(now: number): void {
+    this.tokens.forEach((issued, token) => {
+      if (issued.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    });
+  }
+}
+
+/**
+ * Singleton token store
+ */
+export const confirmationTokens = new ConfirmationTokenStore();
+
+/**
+ * What the user is asked to confirm
+ */
+export interface ConfirmationRequest {
+  /** Target of the action, e.g. the note ID; a token only confirms this target */
+  subject: string;
+  /** Text shown to the user, describing what will happen */
+  message: string;
+  /** Label of the confirmation checkbox */
+  label: string;
+  /** Structured details returned along with a confirmation token */
+  details?: Record<string, unknown>;
+  /** Confirmation token sent with the call, if any */
+  token?: string;
+}
+
+/**
+ * Asks the user of a session to confirm a tool call
+ */
+export class ToolConfirmation {
+  constructor(
+    private session: McpSession,
+    private toolName: string,
+    private relatedRequestId?: JsonRpcId,
+    private signal?: AbortSignal
+  ) {}
+
+  /**
+   * Get the user's confirmation
+   *
+   * If the elicitation request fails (e.g. the client has no stream open to
+   * receive it), the two-step flow is used instead.
+   *
+   * @returns true if the user confirmed, false if they declined or dismissed the request
+   * @throws {DomainError} CONFIRMATION_REQUIRED with a new token if the client
+   *   cannot ask the user, VALIDATION_FAILED if the token sent is not valid
+   */
+  async confirm(request: ConfirmationRequest): Promise<boolean> {
+    const { userId } = this.session;
+
+    if (request.token !== undefined) {
+      if (!confirmationTokens.redeem(request.token, userId, this.toolName, request.subject)) {
+        throw new DomainError(
+          ErrorCode.VALIDATION_FAILED,
+          'Confirmation token is invalid or has expired. Call the tool without it to get a new one.',
+          { field: 'confirmation_token' }
+        );
+      }
+      return true;
+    }
+
+    if (this.session.clientCapabilities.elicitation) {
+      try {
+        return await this.elicit(request);
+      } catch (error) {
+        if (!(error instanceof ClientRequestError)) {
+          throw error;
+        }
+      }
+    }
+
+    const { token, expiresAt } = confirmationTokens.issue(userId, this.toolName, request.subject);
+    // The token goes into the text too, since not every client shows _meta to the model
+    throw new DomainError(
+      ErrorCode.CONFIRMATION_REQUIRED,
+      `${request.message}\n\nconfirmation_token: ${token} (valid until ${expiresAt.toISOString()})`,
+      {
+        confirmationToken: token,
+        expiresAt: expiresAt.toISOString(),
+        ...request.details,
+      }
+    );
+  }
+
+  /**
+   * Ask the user through elicitation/create
+   *
+   * Only an accept with the box checked counts as confirmation.
+   */
+  private async elicit(request: ConfirmationRequest): Promise<boolean> {
+    const result = await this.session.request(
+      'elicitation/create',
+      {
+        message: request.message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: request.label,
+              description: 'Check to confirm',
+            },
+          },
+          required: ['confirm'],
+        },
+      },
+      { relatedRequestId: this.relatedRequestId, signal: this.signal }
+    );
+
+    const { action, content } = (result ?? {}) as {
+      action?: unknown;
+      content?: { confirm?: unknown };
+    };
+    return action === 'accept' && content?.confirm === true;
+  }
+}
@@ -0,0 +1,869 @@
+import { FastifyBaseLogger } from 'fastify';
+import { z } from 'zod';
+import { UserContext, RequiredScope } from '../types/auth';
+import { CompletionReference, InitializeParams, LoggingLevel } from '../types/mcp';
+import { initializeSession } from './lifecycle';
+import { McpSession } from './session';
+import {
+  JsonRpcErrorCode,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from './protocol';
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+  ResourceNotFoundError,
+} from './resources';
+import { InvalidCursorError } from './pagination';
+import { noteWatcher } from './subscriptions';
+import { promptCatalog, PromptNotFoundError, InvalidPromptArgumentsError } from './prompts';
+import { completeArgument, UnknownCompletionReferenceError } from './completion';
+import { ToolConfirmation } from './confirmation';
+import { ClientLogger, isLoggingLevel, LOGGING_LEVELS } from './logging';
+import { getProgressToken, ProgressReporter } from './progress';
+import { ClientSampler } from './sampling';
+import {
+  DomainError,
+  ErrorCode,
+  domainErrorResponse,
+  domainErrorResult,
+  toDomainError,
+} from './errors';
+import { getTool, getToolNames, listTools, validateToolArguments } from './tools';
+
+/**
+ * Everything a method handler needs about the request it is serving
+ *
+ * Built by the transport, so handlers stay independent of HTTP.
+ */
+export interface RequestContext {
+  /** Session the message belongs to */
+  session: McpSession;
+  /** Authenticated user */
+  user: UserContext;
+  /** OAuth access token, forwarded to Kura */
+  accessToken: string;
+  /** Id of the request being handled, used to route related notifications */
+  requestId?: JsonRpcId;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Request-scoped logger */
+  log: FastifyBaseLogger;
+}
+
+/**
+ * Params of initialize
+ */
+const initializeParamsSchema: z.ZodType<InitializeParams, z.ZodTypeDef, unknown> = z.object({
+  protocolVersion: z.string(),
+  capabilities: z
+    .object({
+      roots: z.object({ listChanged: z.boolean().optional() }).optional(),
+      sampling: z.record(z.unknown()).optional(),
+      elicitation: z.record(z.unknown()).optional(),
+      experimental: z.record(z.unknown()).optional(),
+    })
+    .default({}),
+  clientInfo: z.object({
+    name: z.string(),
+    version: z.string(),
+    title: z.string().optional(),
+  }),
+});
+
+/**
+ * Params of notifications/cancelled; a malformed reason is ignored
+ */
+const cancelledParamsSchema = z.object({
+  requestId: z.union([z.string(), z.number()]),
+  reason: z.string().optional().catch(undefined),
+});
+
+/**
+ * Params of tools/call
+ */
+const toolCallParamsSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.unknown(),
+});
+
+/**
+ * Params of the paginated list methods
+ */
+const cursorParamsSchema = z.object({
+  cursor: z.string().optional(),
+});
+
+/**
+ * Params of the resource methods that take a URI
+ */
+const uriParamsSchema = z.object({
+  uri: z.string().min(1),
+});
+
+/**
+ * Params of prompts/get
+ */
+const promptNameParamsSchema = z.object({
+  name: z.string().min(1),
+});
+
+const promptArgumentsParamsSchema = z.object({
+  arguments: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Params of completion/complete
+ */
+const completionRefParamsSchema: z.ZodType<{ ref: CompletionReference }, z.ZodTypeDef, unknown> =
+  z.object({
+    ref: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('ref/prompt'), name: z.string() }),
+      z.object({ type: z.literal('ref/resource'), uri: z.string() }),
+      z.object({ type: z.literal('ref/tool'), name: z.string() }),
+    ]),
+  });
+
+const completionArgumentParamsSchema = z.object({
+  argument: z.object({ name: z.string(), value: z.string() }),
+});
+
+/**
+ * Params of logging/setLevel
+ */
+const setLevelParamsSchema = z.object({
+  level: z.custom<LoggingLevel>(isLoggingLevel),
+});
+
+/**
+ * Dispatch a JSON-RPC request to its method handler
+ *
+ * Supports methods:
+ * - initialize: Negotiates protocol version and capabilities
+ * - ping: Liveness check
+ * - tools/list: Returns available tools
+ * - tools/call: Executes a tool
+ * - resources/list, resources/templates/list, resources/read: Notes as resources
+ * - resources/subscribe, resources/unsubscribe: Change notifications for resources
+ * - prompts/list, prompts/get: Prompt templates for Kura workflows
+ * - completion/complete: Suggestions for prompt, resource template and tool arguments
+ * - logging/setLevel: Minimum level of log messages sent to the client
+ *
+ * Clients must complete the initialize handshake before calling other methods.
+ * Requests can be cancelled with notifications/cancelled; the abort signal is
+ * passed down to the Kura API calls.
+ *
+ * @returns The JSON-RPC response to send back, or null if the request was cancelled
+ */
+export async function dispatchRequest(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse | null> {
+  const requestId = rpcRequest.id ?? null;
+  const controller = ctx.session.beginRequest(requestId);
+
+  try {
+    const response = await routeRequest({ ...ctx, signal: controller.signal }, rpcRequest);
+
+    // Cancelled requests get no response
+    if (controller.signal.aborted) {
+      ctx.log.debug({ requestId }, 'Request cancelled, dropping response');
+      return null;
+    }
+
+    return response;
+  } finally {
+    ctx.session.endRequest(requestId);
+  }
+}
+
+/**
+ * Route a request to its method handler
+ */
+async function routeRequest(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  try {
+    // Lifecycle methods are allowed before initialization
+    switch (rpcRequest.method) {
+      case 'initialize':
+        return handleInitialize(ctx, rpcRequest);
+
+      case 'ping':
+        return createSuccessResponse(rpcRequest.id, {});
+    }
+
+    // Reject everything else until the handshake has happened
+    if (!ctx.session.isInitialized) {
+      return createErrorResponse(
+        rpcRequest.id,
+        JsonRpcErrorCode.INVALID_REQUEST,
+        'Server not initialized. Send an initialize request first.'
+      );
+    }
+
+    // Route to appropriate handler
+    switch (rpcRequest.method) {
+      case 'tools/list':
+        return handleToolsList(ctx, rpcRequest);
+
+      case 'tools/call':
+        return handleToolsCall(ctx, rpcRequest);
+
+      case 'resources/list':
+        return handleResourcesList(ctx, rpcRequest);
+
+      case 'resources/templates/list':
+        return handleResourceTemplatesList(ctx, rpcRequest);
+
+      case 'resources/read':
+        return handleResourcesRead(ctx, rpcRequest);
+
+      case 'resources/subscribe':
+        return handleResourcesSubscribe(ctx, rpcRequest);
+
+      case 'resources/unsubscribe':
+        return handleResourcesUnsubscribe(ctx, rpcRequest);
+
+      case 'prompts/list':
+        return handlePromptsList(ctx, rpcRequest);
+
+      case 'prompts/get':
+        return handlePromptsGet(ctx, rpcRequest);
+
+      case 'completion/complete':
+        return handleCompletionComplete(ctx, rpcRequest);
+
+      case 'logging/setLevel':
+        return handleLoggingSetLevel(ctx, rpcRequest);
+
+      default:
+        return createErrorResponse(
+          rpcRequest.id,
+          JsonRpcErrorCode.METHOD_NOT_FOUND,
+          `Method not found: ${rpcRequest.method}`
+        );
+    }
+  } catch (error) {
+    ctx.log.error({ error }, 'Error handling MCP request');
+    return createErrorResponse(
+      rpcRequest.id,
+      JsonRpcErrorCode.INTERNAL_ERROR,
+      'Internal server error'
+    );
+  }
+}
+
+/**
+ * Dispatch a JSON-RPC notification
+ *
+ * Notifications never produce a response; unknown ones are ignored.
+ */
+export function dispatchNotification(ctx: RequestContext, notification: JsonRpcRequest): void {
+  switch (notification.method) {
+    case 'notifications/initialized':
+      return handleInitializedNotification(ctx);
+
+    case 'notifications/cancelled':
+      return handleCancelledNotification(ctx, notification);
+
+    default:
+      ctx.log.debug({ method: notification.method }, 'Ignoring unknown notification');
+  }
+}
+
+/**
+ * Dispatch a JSON-RPC response sent by the client
+ *
+ * Answers a server-to-client request (e.g. elicitation/create) waiting on
+ * the session. Responses to unknown requests are dropped.
+ */
+export function dispatchResponse(ctx: RequestContext, response: JsonRpcResponse): void {
+  if (!ctx.session.handleResponse(response)) {
+    ctx.log.debug({ id: response.id }, 'Ignoring response to unknown request');
+  }
+}
+
+/**
+ * Handle initialize method
+ *
+ * Negotiates the protocol version and returns server capabilities,
+ * server info and usage instructions.
+ */
+function handleInitialize(ctx: RequestContext, rpcRequest: JsonRpcRequest): JsonRpcResponse {
+  const params = parseParams(rpcRequest, initializeParamsSchema);
+  if (!params) {
+    return invalidParams(
+      rpcRequest,
+      'Invalid initialize params. Expected protocolVersion, capabilities and clientInfo.'
+    );
+  }
+
+  const result = initializeSession(ctx.session, params);
+
+  ctx.log.info(
+    {
+      sessionId: ctx.session.id,
+      clientInfo: params.clientInfo,
+      requestedVersion: params.protocolVersion,
+      protocolVersion: result.protocolVersion,
+    },
+    'MCP session initialized'
+  );
+
+  return createSuccessResponse(rpcRequest.id, result);
+}
+
+/**
+ * Handle notifications/initialized
+ *
+ * Marks the session as ready.
+ */
+function handleInitializedNotification(ctx: RequestContext): void {
+  if (ctx.session.state === 'initializing') {
+    ctx.session.state = 'ready';
+    ctx.log.debug({ sessionId: ctx.session.id }, 'MCP session ready');
+  }
+}
+
+/**
+ * Handle notifications/cancelled
+ *
+ * Aborts the referenced in-flight request. Unknown or already finished
+ * requests are ignored, as required by the spec.
+ */
+function handleCancelledNotification(ctx: RequestContext, notification: JsonRpcRequest): void {
+  const params = parseParams(notification, cancelledParamsSchema);
+  if (!params) {
+    return;
+  }
+
+  const { requestId, reason } = params;
+  const cancelled = ctx.session.cancelRequest(requestId, reason);
+
+  ctx.log.info(
+    { sessionId: ctx.session.id, requestId, reason, cancelled },
+    'Request cancellation received'
+  );
+}
+
+/**
+ * Handle tools/list method
+ *
+ * Returns list of available tools that the user can call: tools whose
+ * scopes the token lacks, or all tools without mcp:tools:execute, are left out.
+ * Requires mcp:tools:read scope.
+ */
+function handleToolsList(ctx: RequestContext, rpcRequest: JsonRpcRequest): JsonRpcResponse {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.TOOLS_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  // Only advertise tools the token can call
+  const callable = ctx.user.scopes.includes(RequiredScope.TOOLS_EXECUTE)
+    ? listTools(ctx.user.scopes)
+    : [];
+
+  return createSuccessResponse(rpcRequest.id, {
+    tools: callable,
+  });
+}
+
+/**
+ * Handle tools/call method
+ *
+ * Executes a tool with provided parameters.
+ * Requires mcp:tools:execute scope plus the scopes the tool declares.
+ *
+ * Unknown tools and invalid arguments are JSON-RPC errors; domain errors
+ * raised while the tool runs become isError results with the code in
+ * _meta.error. If params._meta.progressToken is set, the tool can send
+ * notifications/progress while it runs.
+ */
+async function handleToolsCall(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const executeScopeError = checkScopes(ctx, rpcRequest, [RequiredScope.TOOLS_EXECUTE]);
+  if (executeScopeError) {
+    return executeScopeError;
+  }
+
+  // Validate params structure
+  if (!rpcRequest.params || typeof rpcRequest.params !== 'object') {
+    return invalidParams(rpcRequest, 'Missing or invalid params field');
+  }
+
+  // Validate tool name
+  const params = parseParams(rpcRequest, toolCallParamsSchema);
+  if (!params) {
+    return invalidParams(rpcRequest, 'Missing or invalid tool name', { field: 'name' });
+  }
+
+  const { name, arguments: toolArgs } = params;
+
+  const tool = getTool(name);
+  if (!tool) {
+    return invalidParams(rpcRequest, `Unknown tool: ${name}`, {
+      field: 'name',
+      available_tools: getToolNames(),
+    });
+  }
+
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.TOOLS_EXECUTE, ...tool.scopes]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  let input: unknown;
+  try {
+    input = validateToolArguments(tool, toolArgs);
+  } catch (error) {
+    return errorResponse(ctx, rpcRequest, error, 'Tool execution failed');
+  }
+
+  const progress = new ProgressReporter(ctx.session, getProgressToken(params), ctx.requestId);
+  try {
+    const result = await tool.execute(input, {
+      accessToken: ctx.accessToken,
+      signal: ctx.signal,
+      log: new ClientLogger(ctx.session, name, ctx.requestId),
+      progress,
+      confirmation: new ToolConfirmation(ctx.session, name, ctx.requestId, ctx.signal),
+      sampling: new ClientSampler(ctx.session, ctx.requestId, ctx.signal),
+    });
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    // Failures the model can react to are reported in the tool result
+    const domainError = toDomainError(error);
+    if (domainError) {
+      ctx.log.warn({ tool: name, code: domainError.code, error }, 'Tool call failed');
+      return createSuccessResponse(rpcRequest.id, domainErrorResult(domainError));
+    }
+
+    ctx.log.error({ error, tool: name }, 'Error executing tool');
+    return createErrorResponse(
+      rpcRequest.id,
+      JsonRpcErrorCode.INTERNAL_ERROR,
+      'Tool execution failed',
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    );
+  } finally {
+    progress.close();
+  }
+}
+
+/**
+ * Handle resources/list method
+ *
+ * Lists the recent notes view and the recent notes as resources.
+ * Requires kura:notes:read scope.
+ */
+async function handleResourcesList(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const params = parseParams(rpcRequest, cursorParamsSchema);
+  if (!params) {
+    return invalidCursor(rpcRequest);
+  }
+
+  try {
+    const result = await listResources(ctx.accessToken, params.cursor, ctx.signal);
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    return resourceErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Handle resources/templates/list method
+ *
+ * Requires kura:notes:read scope.
+ */
+function handleResourceTemplatesList(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): JsonRpcResponse {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const params = parseParams(rpcRequest, cursorParamsSchema);
+  if (!params) {
+    return invalidCursor(rpcRequest);
+  }
+
+  try {
+    return createSuccessResponse(rpcRequest.id, listResourceTemplates(params.cursor));
+  } catch (error) {
+    return resourceErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Handle resources/read method
+ *
+ * Requires kura:notes:read scope.
+ */
+async function handleResourcesRead(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const params = parseParams(rpcRequest, uriParamsSchema);
+  if (!params) {
+    return invalidParams(rpcRequest, 'Missing or invalid "uri" parameter', { field: 'uri' });
+  }
+  const { uri } = params;
+
+  try {
+    const result = await readResource(ctx.accessToken, uri, ctx.signal);
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    return resourceErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Handle resources/subscribe method
+ *
+ * Requires kura:notes:read scope. Updates are sent as
+ * notifications/resources/updated on the session's standalone stream.
+ */
+function handleResourcesSubscribe(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): JsonRpcResponse {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const params = parseParams(rpcRequest, uriParamsSchema);
+  if (!params) {
+    return invalidParams(rpcRequest, 'Missing or invalid "uri" parameter', { field: 'uri' });
+  }
+  const { uri } = params;
+
+  try {
+    noteWatcher.subscribe(ctx.session, uri);
+    return createSuccessResponse(rpcRequest.id, {});
+  } catch (error) {
+    return resourceErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Handle resources/unsubscribe method
+ *
+ * Requires kura:notes:read scope.
+ */
+function handleResourcesUnsubscribe(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): JsonRpcResponse {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const params = parseParams(rpcRequest, uriParamsSchema);
+  if (!params) {
+    return invalidParams(rpcRequest, 'Missing or invalid "uri" parameter', { field: 'uri' });
+  }
+  const { uri } = params;
+
+  noteWatcher.unsubscribe(ctx.session, uri);
+  return createSuccessResponse(rpcRequest.id, {});
+}
+
+/**
+ * Map errors from resource handlers to JSON-RPC errors
+ */
+function resourceErrorResponse(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest,
+  error: unknown
+): JsonRpcResponse {
+  if (error instanceof ResourceNotFoundError) {
+    return domainErrorResponse(
+      rpcRequest.id,
+      new DomainError(ErrorCode.NOTE_NOT_FOUND, error.message, { uri: error.uri })
+    );
+  }
+
+  if (error instanceof InvalidCursorError) {
+    return invalidParams(rpcRequest, error.message, { field: 'cursor' });
+  }
+
+  return errorResponse(ctx, rpcRequest, error, 'Resource access failed');
+}
+
+/**
+ * Handle prompts/list method
+ */
+async function handlePromptsList(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const params = parseParams(rpcRequest, cursorParamsSchema);
+  if (!params) {
+    return invalidCursor(rpcRequest);
+  }
+
+  try {
+    const result = await promptCatalog.list(params.cursor);
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    return promptErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Handle prompts/get method
+ *
+ * Requires kura:notes:read scope, since prompts embed note excerpts.
+ */
+async function handlePromptsGet(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const nameParams = parseParams(rpcRequest, promptNameParamsSchema);
+  if (!nameParams) {
+    return invalidParams(rpcRequest, 'Missing or invalid "name" parameter', { field: 'name' });
+  }
+
+  const argumentParams = parseParams(rpcRequest, promptArgumentsParamsSchema);
+  if (!argumentParams) {
+    return invalidParams(rpcRequest, 'Invalid "arguments" parameter: must be an object', {
+      field: 'arguments',
+    });
+  }
+
+  try {
+    const result = await promptCatalog.get(
+      ctx.accessToken,
+      nameParams.name,
+      argumentParams.arguments,
+      ctx.signal
+    );
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    return promptErrorResponse(ctx, rpcRequest, error);
+  }
+}
+
+/**
+ * Map errors from prompt handlers to JSON-RPC errors
+ */
+function promptErrorResponse(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest,
+  error: unknown
+): JsonRpcResponse {
+  if (error instanceof PromptNotFoundError) {
+    return invalidParams(rpcRequest, error.message, { field: 'name', name: error.promptName });
+  }
+
+  if (error instanceof InvalidPromptArgumentsError) {
+    return invalidParams(rpcRequest, error.message, { field: 'arguments', errors: error.errors });
+  }
+
+  if (error instanceof InvalidCursorError) {
+    return invalidParams(rpcRequest, error.message, { field: 'cursor' });
+  }
+
+  return errorResponse(ctx, rpcRequest, error, 'Prompt failed');
+}
+
+/**
+ * Handle completion/complete method
+ *
+ * Requires kura:notes:read scope, since suggestions come from the user's notes.
+ */
+async function handleCompletionComplete(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest
+): Promise<JsonRpcResponse> {
+  const scopeError = checkScopes(ctx, rpcRequest, [RequiredScope.KURA_NOTES_READ]);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const refParams = parseParams(rpcRequest, completionRefParamsSchema);
+  if (!refParams) {
+    return invalidParams(
+      rpcRequest,
+      'Missing or invalid "ref" parameter: expected ref/prompt with name, ref/resource with uri or ref/tool with name',
+      { field: 'ref' }
+    );
+  }
+
+  const argumentParams = parseParams(rpcRequest, completionArgumentParamsSchema);
+  if (!argumentParams) {
+    return invalidParams(
+      rpcRequest,
+      'Missing or invalid "argument" parameter: expected name and value strings',
+      { field: 'argument' }
+    );
+  }
+
+  try {
+    const result = await completeArgument(
+      { userId: ctx.user.userId, accessToken: ctx.accessToken, signal: ctx.signal },
+      refParams.ref,
+      argumentParams.argument
+    );
+    return createSuccessResponse(rpcRequest.id, result);
+  } catch (error) {
+    if (error instanceof UnknownCompletionReferenceError || error instanceof PromptNotFoundError) {
+      return invalidParams(rpcRequest, error.message, { field: 'ref' });
+    }
+
+    return errorResponse(ctx, rpcRequest, error, 'Completion failed');
+  }
+}
+
+/**
+ * Handle logging/setLevel method
+ *
+ * Sets the minimum level of notifications/message sent on this session.
+ * Tools and the Kura client only include queries, URLs and note content
+ * at debug level.
+ */
+function handleLoggingSetLevel(ctx: RequestContext, rpcRequest: JsonRpcRequest): JsonRpcResponse {
+  const params = parseParams(rpcRequest, setLevelParamsSchema);
+  if (!params) {
+    return invalidParams(
+      rpcRequest,
+      `Missing or invalid "level" parameter. Expected one of: ${LOGGING_LEVELS.join(', ')}`,
+      { field: 'level' }
+    );
+  }
+
+  ctx.session.logLevel = params.level;
+  ctx.log.debug({ sessionId: ctx.session.id, level: params.level }, 'Client log level set');
+
+  return createSuccessResponse(rpcRequest.id, {});
+}
+
+/**
+ * Map an error that is not specific to one method to a JSON-RPC error
+ *
+ * Domain errors (including Kura API errors) keep their code; anything else
+ * is unexpected and reported as an internal error.
+ */
+function errorResponse(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest,
+  error: unknown,
+  failure: string
+): JsonRpcResponse {
+  const domainError = toDomainError(error);
+  if (domainError) {
+    ctx.log.warn({ code: domainError.code, error }, `${rpcRequest.method} failed`);
+    return domainErrorResponse(rpcRequest.id, domainError);
+  }
+
+  ctx.log.error({ error }, `Error handling ${rpcRequest.method}`);
+  return createErrorResponse(rpcRequest.id, JsonRpcErrorCode.INTERNAL_ERROR, failure, {
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
+
+/**
+ * Parse request params with a zod schema
+ *
+ * Requests without params are parsed as an empty object.
+ *
+ * @returns The parsed params, or undefined if they do not match the schema
+ */
+function parseParams<Params>(
+  rpcRequest: JsonRpcRequest,
+  schema: z.ZodType<Params, z.ZodTypeDef, unknown>
+): Params | undefined {
+  const result = schema.safeParse(rpcRequest.params ?? {});
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * VALIDATION_FAILED error response for a cursor that is not a string
+ */
+function invalidCursor(rpcRequest: JsonRpcRequest): JsonRpcResponse {
+  return invalidParams(rpcRequest, 'Invalid "cursor" parameter: must be a string', {
+    field: 'cursor',
+  });
+}
+
+/**
+ * VALIDATION_FAILED error response for invalid request params
+ *
+ * @param details - Structured details, usually the offending field
+ */
+function invalidParams(
+  rpcRequest: JsonRpcRequest,
+  message: string,
+  details?: Record<string, unknown>
+): JsonRpcResponse {
+  return domainErrorResponse(
+    rpcRequest.id,
+    new DomainError(ErrorCode.VALIDATION_FAILED, message, details)
+  );
+}
+
+/**
+ * Check that the caller's token carries the scopes a request needs
+ *
+ * Failures are INSUFFICIENT_SCOPE errors that also carry an RFC 6750
+ * insufficient_scope challenge in the error data; scope lists every scope
+ * the request needs, so the client can ask for them.
+ *
+ * @returns An error response if a scope is missing, otherwise undefined
+ */
+function checkScopes(
+  ctx: RequestContext,
+  rpcRequest: JsonRpcRequest,
+  scopes: RequiredScope[]
+): JsonRpcResponse | undefined {
+  const missing = scopes.filter((scope) => !ctx.user.scopes.includes(scope));
+  if (missing.length === 0) {
+    return undefined;
+  }
+
+  return domainErrorResponse(
+    rpcRequest.id,
+    new DomainError(
+      ErrorCode.INSUFFICIENT_SCOPE,
+      `Insufficient scope. Required: ${missing.join(', ')}`,
+      {
+        error: 'insufficient_scope',
+        error_description: `Token lacks required scopes: ${missing.join(', ')}`,
+        scope: scopes.join(' '),
+      }
+    )
+  );
+}
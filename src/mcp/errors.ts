@@ -0,0 +1,191 @@
+/**
+ * Domain error taxonomy
+ *
+ * Failures a client can act on carry a machine-readable code. Where the code
+ * shows up depends on where the failure happens:
+ * - While a tool runs: a tool result with isError: true and the code in
+ *   _meta.error, so the model sees the failure and can react to it
+ * - Anywhere else: a JSON-RPC error with the code in data.code
+ *
+ * Either way the HTTP status is 200; clients branch on the code, never on
+ * the message text.
+ */
+
+import { KuraApiError, NoteConflictError, NoteNotFoundError } from '../services/kura-client';
+import { ToolResult } from '../types/mcp';
+import { JsonRpcErrorCode, JsonRpcId, JsonRpcResponse, createErrorResponse } from './protocol';
+
+/**
+ * Machine-readable error codes
+ */
+export enum ErrorCode {
+  /** The note does not exist (or is not visible to the user) */
+  NOTE_NOT_FOUND = 'NOTE_NOT_FOUND',
+  /** Kura could not be reached or failed; retrying later may help */
+  KURA_UNAVAILABLE = 'KURA_UNAVAILABLE',
+  /** The access token was rejected; the client must re-authenticate */
+  TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  /** The request parameters or tool arguments are invalid */
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  /** Kura is rate limiting the user; retry after a pause */
+  RATE_LIMITED = 'RATE_LIMITED',
+  /** The token lacks a scope the request needs */
+  INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE',
+  /** A destructive action needs the user's confirmation; details carry the confirmation token */
+  CONFIRMATION_REQUIRED = 'CONFIRMATION_REQUIRED',
+  /** The note was changed since the client read it; details carry both timestamps */
+  CONFLICT = 'CONFLICT',
+}
+
+/**
+ * JSON-RPC error code used for each domain error
+ */
+const JSON_RPC_CODES: Record<ErrorCode, JsonRpcErrorCode> = {
+  [ErrorCode.NOTE_NOT_FOUND]: JsonRpcErrorCode.RESOURCE_NOT_FOUND,
+  [ErrorCode.KURA_UNAVAILABLE]: JsonRpcErrorCode.KURA_UNAVAILABLE,
+  [ErrorCode.TOKEN_EXPIRED]: JsonRpcErrorCode.TOKEN_EXPIRED,
+  [ErrorCode.VALIDATION_FAILED]: JsonRpcErrorCode.INVALID_PARAMS,
+  [ErrorCode.RATE_LIMITED]: JsonRpcErrorCode.RATE_LIMITED,
+  [ErrorCode.INSUFFICIENT_SCOPE]: JsonRpcErrorCode.INSUFFICIENT_SCOPE,
+  [ErrorCode.CONFIRMATION_REQUIRED]: JsonRpcErrorCode.CONFIRMATION_REQUIRED,
+  [ErrorCode.CONFLICT]: JsonRpcErrorCode.CONFLICT,
+};
+
+/**
+ * Codes of failures that may go away when the request is retried as is
+ */
+const RETRYABLE_CODES = new Set([ErrorCode.KURA_UNAVAILABLE, ErrorCode.RATE_LIMITED]);
+
+/**
+ * What the model is told to do about a failed tool call
+ */
+const TOOL_HINTS: Record<ErrorCode, string> = {
+  [ErrorCode.NOTE_NOT_FOUND]: 'The note may have been deleted or the ID is incorrect.',
+  [ErrorCode.KURA_UNAVAILABLE]: 'Kura is not available right now. Try again later.',
+  [ErrorCode.TOKEN_EXPIRED]: 'The access token has expired. The user needs to re-authenticate.',
+  [ErrorCode.VALIDATION_FAILED]: 'Check the arguments and try again.',
+  [ErrorCode.RATE_LIMITED]: 'Too many requests. Wait a moment before trying again.',
+  [ErrorCode.INSUFFICIENT_SCOPE]: 'The user has not granted the permission this needs.',
+  [ErrorCode.CONFIRMATION_REQUIRED]:
+    'Show this to the user. Only if they agree, call the tool again with the same arguments ' +
+    'plus confirmation_token.',
+  [ErrorCode.CONFLICT]:
+    'The note was changed in the meantime. Get the note again, check the changes with the user ' +
+    'and retry with its current updatedAt.',
+};
+
+/**
+ * Error with a machine-readable code
+ */
+export class DomainError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    /** Structured details, merged into the error data */
+    public details: Record<string, unknown> = {},
+    public override cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DomainError';
+  }
+
+  /**
+   * Whether retrying the same request later may succeed
+   */
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code);
+  }
+
+  /**
+   * Structured error data: the code, whether to retry and the details
+   */
+  toData(): Record<string, unknown> {
+    return { code: this.code, retryable: this.retryable, ...this.details };
+  }
+}
+
+/**
+ * Classify an error as a domain error
+ *
+ * Kura API errors are mapped by status: 401 means the token expired, 403 a
+ * missing permission, 400/422 rejected input, 409/412 a conflicting change
+ * and 429 rate limiting.
+ * Everything else, including network failures, means Kura is unavailable.
+ *
+ * @returns The domain error, or undefined for unexpected errors
+ */
+export function toDomainError(error: unknown): DomainError | undefined {
+  if (error instanceof DomainError) {
+    return error;
+  }
+
+  if (!(error instanceof KuraApiError)) {
+    return undefined;
+  }
+
+  if (error instanceof NoteNotFoundError) {
+    return new DomainError(
+      ErrorCode.NOTE_NOT_FOUND,
+      error.message,
+      { noteId: error.noteId },
+      error
+    );
+  }
+
+  if (error instanceof NoteConflictError) {
+    return new DomainError(
+      ErrorCode.CONFLICT,
+      error.message,
+      { noteId: error.noteId, expectedUpdatedAt: error.expectedUpdatedAt },
+      error
+    );
+  }
+
+  switch (error.statusCode) {
+    case 401:
+      return new DomainError(ErrorCode.TOKEN_EXPIRED, error.message, {}, error);
+    case 403:
+      return new DomainError(ErrorCode.INSUFFICIENT_SCOPE, error.message, {}, error);
+    case 400:
+    case 422:
+      return new DomainError(ErrorCode.VALIDATION_FAILED, error.message, {}, error);
+    case 409:
+    case 412:
+      return new DomainError(ErrorCode.CONFLICT, error.message, {}, error);
+    case 429:
+      return new DomainError(ErrorCode.RATE_LIMITED, error.message, {}, error);
+    default:
+      return new DomainError(
+        ErrorCode.KURA_UNAVAILABLE,
+        error.message,
+        error.statusCode ? { status: error.statusCode } : {},
+        error
+      );
+  }
+}
+
+/**
+ * JSON-RPC error response for a domain error
+ */
+export function domainErrorResponse(
+  id: JsonRpcId | undefined,
+  error: DomainError
+): JsonRpcResponse {
+  return createErrorResponse(id, JSON_RPC_CODES[error.code], error.message, error.toData());
+}
+
+/**
+ * Tool result for a tool call that failed with a domain error
+ */
+export function domainErrorResult(error: DomainError): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${error.message}\n\n${TOOL_HINTS[error.code]}`,
+      },
+    ],
+    isError: true,
+    _meta: { error: error.toData() },
+  };
+}
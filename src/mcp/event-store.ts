@@ -0,0 +1,134 @@
+/**
+ * Event storage for resumable SSE streams
+ *
+ * Every message written to an SSE stream is stored first and gets an event
+ * id. When a client reconnects with a Last-Event-ID header, the events it
+ * missed on that stream are replayed.
+ */
+
+import { JsonRpcPayload } from './protocol';
+
+/**
+ * Callback used to deliver replayed events
+ */
+export type ReplaySender = (eventId: string, message: JsonRpcPayload) => void;
+
+/**
+ * Storage backend for SSE events
+ *
+ * The interface is asynchronous so implementations can keep events in shared
+ * storage (e.g. Redis) when several server instances serve the same sessions.
+ */
+export interface EventStore {
+  /**
+   * Store a message sent on a stream
+   *
+   * @returns The event id to send with the message
+   */
+  storeEvent(sessionId: string, streamId: string, message: JsonRpcPayload): Promise<string>;
+
+  /**
+   * Replay all events stored after the given event id on the same stream
+   *
+   * @returns The stream id the event belonged to, or undefined if the event is unknown or expired
+   */
+  replayEventsAfter(
+    sessionId: string,
+    lastEventId: string,
+    send: ReplaySender
+  ): Promise<string | undefined>;
+
+  /**
+   * Drop all events of a session
+   */
+  clearSession(sessionId: string): Promise<void>;
+}
+
+/**
+ * Options for the in-memory event store
+ */
+export interface InMemoryEventStoreOptions {
+  /** Maximum number of events kept per session (oldest are dropped first) */
+  maxEventsPerSession: number;
+  /** How long events are kept, in milliseconds */
+  ttlMs: number;
+}
+
+/**
+ * Event as kept by the in-memory store
+ */
+interface StoredEvent {
+  eventId: string;
+  streamId: string;
+  message: JsonRpcPayload;
+  storedAt: number;
+}
+
+/**
+ * Default event store keeping a bounded, time-limited buffer per session in memory
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<string, StoredEvent[]>();
+  private sequence = 0;
+
+  constructor(private options: InMemoryEventStoreOptions) {}
+
+  async storeEvent(sessionId: string, streamId: string, message: JsonRpcPayload): Promise<string> {
+    const eventId = `${streamId}:${++this.sequence}`;
+
+    let sessionEvents = this.events.get(sessionId);
+    if (!sessionEvents) {
+      sessionEvents = [];
+      this.events.set(sessionId, sessionEvents);
+    }
+
+    sessionEvents.push({ eventId, streamId, message, storedAt: Date.now() });
+    this.prune(sessionEvents);
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    sessionId: string,
+    lastEventId: string,
+    send: ReplaySender
+  ): Promise<string | undefined> {
+    const sessionEvents = this.events.get(sessionId);
+    if (!sessionEvents) {
+      return undefined;
+    }
+
+    this.prune(sessionEvents);
+
+    const index = sessionEvents.findIndex((event) => event.eventId === lastEventId);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const streamId = sessionEvents[index]!.streamId;
+    sessionEvents
+      .slice(index + 1)
+      .filter((event) => event.streamId === streamId)
+      .forEach((event) => send(event.eventId, event.message));
+
+    return streamId;
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    this.events.delete(sessionId);
+  }
+
+  /**
+   * Drop expired events and enforce the size limit
+   */
+  private prune(sessionEvents: StoredEvent[]): void {
+    const cutoff = Date.now() - this.options.ttlMs;
+    let expired = 0;
+    while (expired < sessionEvents.length && sessionEvents[expired]!.storedAt < cutoff) {
+      expired++;
+    }
+
+    const overflow = sessionEvents.length - expired - this.options.maxEventsPerSession;
+    sessionEvents.splice(0, expired + Math.max(0, overflow));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * MCP lifecycle: protocol version negotiation and server capabilities
+ */
+
+import {
+  Implementation,
+  InitializeParams,
+  InitializeResult,
+  ServerCapabilities,
+} from '../types/mcp';
+import { McpSession } from './session';
+
+/**
+ * Protocol versions this server understands, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Protocol version offered when the client requests one we do not support
+ */
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0]!;
+
+/**
+ * Server identity reported in the initialize result
+ */
+export const SERVER_INFO: Implementation = {
+  name: 'komcp',
+  title: 'KOmcp - Kura Notes',
+  version: '1.0.0',
+};
+
+/**
+ * Instructions returned to the client to explain how the tools fit together
+ */
+export const SERVER_INSTRUCTIONS =
+  "KOmcp gives access to the user's Kura notes.\n\n" +
+  '- Use search_kura_notes to find notes by meaning; results contain excerpts and note IDs. ' +
+  'Queries may use tag:, type:, after:, before:, "exact phrase" and -exclude.\n' +
+  '- Use get_note with a note ID from search or list results to read the full content.\n' +
+  '- Use list_recent_notes for an overview of what the user has been working on lately.\n' +
+  '- Use summarize_notes for an overview of everything the user wrote about a topic.\n' +
+  '- Use create_note to save new information the user wants to keep.\n' +
+  '- Use update_note to change a note in place; pass the updatedAt you read as expected_updated_at.\n' +
+  '- Use append_to_note to add to a note (e.g. a log entry or a bullet under a heading) instead of rewriting it.\n' +
+  '- delete_note is permanent and asks the user to confirm. If it returns CONFIRMATION_REQUIRED, ' +
+  'show the note to the user and only repeat the call with the confirmation_token if they agree.\n\n' +
+  'Notes are also available as resources: kura://notes/{id} for one note, kura://recent for ' +
+  'recent notes and kura://tags/{tag} for notes with a tag. Subscribe to a resource to be ' +
+  'notified when it changes.';
+
+/**
+ * Pick the protocol version to use for a session
+ *
+ * Echoes the client's requested version if supported, otherwise offers the
+ * latest version this server speaks and lets the client decide.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return LATEST_PROTOCOL_VERSION;
+}
+
+/**
+ * Capabilities of this server
+ *
+ * Only advertise features that are actually implemented.
+ */
+export function getServerCapabilities(): ServerCapabilities {
+  return {
+    tools: { listChanged: false },
+    resources: { subscribe: true, listChanged: true },
+    prompts: { listChanged: false },
+    completions: {},
+    logging: {},
+  };
+}
+
+/**
+ * Handle an initialize request for a session
+ *
+ * Stores the negotiated version and client details on the session and
+ * builds the initialize result.
+ */
+export function initializeSession(session: McpSession, params: InitializeParams): InitializeResult {
+  const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+
+  session.protocolVersion = protocolVersion;
+  session.clientInfo = params.clientInfo;
+  session.clientCapabilities = params.capabilities ?? {};
+  session.state = 'initializing';
+
+  return {
+    protocolVersion,
+    capabilities: getServerCapabilities(),
+    serverInfo: SERVER_INFO,
+    instructions: SERVER_INSTRUCTIONS,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * MCP logging: log messages sent to the client
+ *
+ * Diagnostics that explain a result (Kura latency, search method, filters)
+ * are sent as notifications/message. The client picks the minimum level per
+ * session with logging/setLevel. Values that could hold tokens or note
+ * content are passed separately as detail and are only sent when the
+ * session level is debug.
+ */
+
+import { LoggingLevel, LoggingMessageParams } from '../types/mcp';
+import { JsonRpcId } from './protocol';
+import { McpSession } from './session';
+
+/**
+ * Logging levels, least severe first
+ */
+export const LOGGING_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * Whether a value is a valid logging level
+ */
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return typeof value === 'string' && (LOGGING_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Sends log messages to the client of a session
+ *
+ * Messages about a request are sent on that request's stream when it has
+ * one, otherwise on the standalone stream.
+ */
+export class ClientLogger {
+  constructor(
+    private session: McpSession,
+    private name: string,
+    private relatedRequestId?: JsonRpcId
+  ) {}
+
+  /**
+   * Logger for a component of the same request, e.g. the Kura client
+   */
+  child(name: string): ClientLogger {
+    return new ClientLogger(this.session, name, this.relatedRequestId);
+  }
+
+  /**
+   * Whether messages of a level reach the client
+   */
+  isEnabled(level: LoggingLevel): boolean {
+    return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(this.session.logLevel);
+  }
+
+  /**
+   * Send a log message if the session's level lets it through
+   *
+   * @param data - Fields safe to show at any level
+   * @param detail - Fields that may contain the query, URLs or note content;
+   *   only sent when the session level is debug
+   */
+  log(
+    level: LoggingLevel,
+    message: string,
+    data: Record<string, unknown> = {},
+    detail?: Record<string, unknown>
+  ): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const includeDetail = detail !== undefined && this.session.logLevel === 'debug';
+    const params: LoggingMessageParams = {
+      level,
+      logger: this.name,
+      data: { message, ...data, ...(includeDetail && detail) },
+    };
+    void this.session.notify('notifications/message', params, this.relatedRequestId);
+  }
+}
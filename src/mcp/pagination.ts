@@ -0,0 +1,81 @@
+/**
+ * Cursor-based pagination for MCP list methods
+ *
+ * Cursors are opaque to clients. Internally they encode the offset of the
+ * next page as base64url JSON.
+ */
+
+/**
+ * Default number of items per page
+ */
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Error thrown for cursors this server did not issue
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * One page of items
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Encode the offset of the next page as a cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+/**
+ * Decode a cursor into an offset
+ *
+ * @throws {InvalidCursorError} If the cursor is malformed
+ */
+export function decodeCursor(cursor: string): number {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as {
+      offset?: unknown;
+    };
+    if (
+      typeof decoded.offset === 'number' &&
+      Number.isInteger(decoded.offset) &&
+      decoded.offset >= 0
+    ) {
+      return decoded.offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError(cursor);
+}
+
+/**
+ * Return the page of items starting at the cursor
+ *
+ * @param items - Full list of items
+ * @param cursor - Cursor from a previous page, or undefined for the first page
+ * @param pageSize - Maximum items per page
+ * @throws {InvalidCursorError} If the cursor is malformed
+ */
+export function paginate<T>(
+  items: T[],
+  cursor: string | undefined,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Page<T> {
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor);
+  const end = offset + pageSize;
+
+  return {
+    items: items.slice(offset, end),
+    ...(end < items.length && { nextCursor: encodeCursor(end) }),
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Progress notifications for long-running tool calls
+ *
+ * A client that wants progress updates sends _meta.progressToken with its
+ * request. The tool then reports its progress through a ProgressReporter,
+ * which sends notifications/progress on the request's stream.
+ */
+
+import { ProgressNotificationParams, ProgressToken } from '../types/mcp';
+import { JsonRpcId } from './protocol';
+import { McpSession } from './session';
+
+/**
+ * Minimum time between two progress notifications of one request
+ */
+const PROGRESS_MIN_INTERVAL_MS = 250;
+
+/**
+ * Read the progress token from request params, if the client sent one
+ */
+export function getProgressToken(params: unknown): ProgressToken | undefined {
+  if (!params || typeof params !== 'object') {
+    return undefined;
+  }
+
+  const meta = (params as { _meta?: unknown })._meta;
+  if (!meta || typeof meta !== 'object') {
+    return undefined;
+  }
+
+  const token = (meta as { progressToken?: unknown }).progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+/**
+ * Reports the progress of one request to the client
+ *
+ * Does nothing if the client did not ask for progress. Updates are
+ * rate-limited to one per PROGRESS_MIN_INTERVAL_MS: one arriving sooner is
+ * held back and sent when the interval is over, replaced by any later
+ * update in the meantime. An update that completes the operation is sent
+ * right away. Progress that does not increase is ignored, as the spec
+ * requires.
+ */
+export class ProgressReporter {
+  private lastProgress?: number;
+  private lastSentAt = 0;
+  private pending?: ProgressNotificationParams;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(
+    private session: McpSession,
+    private progressToken?: ProgressToken,
+    private relatedRequestId?: JsonRpcId
+  ) {}
+
+  /**
+   * Whether the client asked for progress updates
+   */
+  get isEnabled(): boolean {
+    return this.progressToken !== undefined;
+  }
+
+  /**
+   * Report progress
+   *
+   * @param progress - Work done so far, e.g. notes fetched
+   * @param total - Total work, if known
+   * @param message - Human-readable description of the current step
+   */
+  report(progress: number, total?: number, message?: string): void {
+    if (this.progressToken === undefined) {
+      return;
+    }
+
+    if (this.lastProgress !== undefined && progress <= this.lastProgress) {
+      return;
+    }
+    this.lastProgress = progress;
+
+    const params: ProgressNotificationParams = {
+      progressToken: this.progressToken,
+      progress,
+      ...(total !== undefined && { total }),
+      ...(message !== undefined && { message }),
+    };
+
+    const isFinal = total !== undefined && progress >= total;
+    const wait = this.lastSentAt + PROGRESS_MIN_INTERVAL_MS - Date.now();
+    if (isFinal || wait <= 0) {
+      this.send(params);
+      return;
+    }
+
+    this.pending = params;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), wait);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Drop an update that is still held back
+   *
+   * Called when the request is done, as no progress may follow its response.
+   */
+  close(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.pending = undefined;
+  }
+
+  private flush(): void {
+    this.flushTimer = undefined;
+    if (this.pending) {
+      this.send(this.pending);
+    }
+  }
+
+  private send(params: ProgressNotificationParams): void {
+    this.close();
+    this.lastSentAt = Date.now();
+    void this.session.notify('notifications/progress', params, this.relatedRequestId);
+  }
+}
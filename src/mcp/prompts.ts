@@ -0,0 +1,509 @@
+/**
+ * MCP Prompts: reusable prompt templates for common Kura workflows
+ *
+ * Prompts are declared as data: typed arguments, an optional Kura search
+ * and message templates. Placeholders like {{topic}} are replaced with the
+ * argument values, and {{notes}} with excerpts of the notes the search
+ * found. Besides the built-in catalog, prompts are loaded from JSON files in
+ * PROMPTS_DIR, so teams can add their own without code changes.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { getKuraClient, KuraSearchResult, SearchParams } from '../services/kura-client';
+import { GetPromptResult, ListPromptsResult, PromptMessage } from '../types/mcp';
+import { paginate } from './pagination';
+import { noteUri } from './resources';
+
+/**
+ * Placeholder replaced with the excerpts of the notes found by the search
+ */
+const NOTES_PLACEHOLDER = 'notes';
+
+/**
+ * Matches {{name}} placeholders in templates
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/**
+ * Schema of a prompt argument
+ *
+ * MCP passes all arguments as strings; the type is checked before rendering.
+ */
+const promptArgumentSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z0-9_]+$/)
+    .refine((name) => name !== NOTES_PLACEHOLDER, {
+      message: `"${NOTES_PLACEHOLDER}" is reserved`,
+    }),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  type: z.enum(['string', 'date', 'tag', 'note_id', 'integer']).default('string'),
+  required: z.boolean().default(false),
+  default: z.string().optional(),
+});
+
+/**
+ * Schema of a prompt definition, shared by built-in prompts and PROMPTS_DIR files
+ */
+const promptDefinitionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z.array(promptArgumentSchema).default([]),
+  /** Kura search whose results fill {{notes}}; every string is a template */
+  search: z
+    .object({
+      query: z.string(),
+      tags: z.array(z.string()).optional(),
+      contentType: z.array(z.string()).optional(),
+      dateFrom: z.string().optional(),
+      dateTo: z.string().optional(),
+      limit: z.number().int().min(1).max(50).default(10),
+    })
+    .optional(),
+  messages: z.array(z.object({ role: z.enum(['user', 'assistant']), text: z.string() })).min(1),
+});
+
+/**
+ * Prompt definition as written in a PROMPTS_DIR file
+ */
+export type PromptDefinitionInput = z.input<typeof promptDefinitionSchema>;
+
+/**
+ * Validated prompt definition
+ */
+export type PromptDefinition = z.output<typeof promptDefinitionSchema>;
+
+/**
+ * Validated prompt argument declaration
+ */
+export type PromptArgumentDefinition = PromptDefinition['arguments'][number];
+
+/**
+ * Error thrown for prompt names that are not in the catalog
+ */
+export class PromptNotFoundError extends Error {
+  constructor(public promptName: string) {
+    super(`Unknown prompt: ${promptName}`);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when prompt arguments are missing or have the wrong type
+ */
+export class InvalidPromptArgumentsError extends Error {
+  constructor(public errors: Array<{ argument: string; message: string }>) {
+    super(
+      `Invalid prompt arguments: ${errors.map((e) => `${e.argument}: ${e.message}`).join('; ')}`
+    );
+    this.name = 'InvalidPromptArgumentsError';
+  }
+}
+
+/**
+ * Built-in prompts
+ */
+const BUILT_IN_PROMPTS: PromptDefinitionInput[] = [
+  {
+    name: 'research_topic',
+    title: 'Research a topic',
+    description: 'Research a topic across your Kura notes and summarize what you know about it',
+    arguments: [
+      { name: 'topic', description: 'Topic to research', required: true },
+      {
+        name: 'question',
+        description: 'Specific question to answer about the topic',
+      },
+    ],
+    search: { query: '{{topic}}', limit: 10 },
+    messages: [
+      {
+        role: 'user',
+        text:
+          'Research "{{topic}}" across my Kura notes. {{question}}\n\n' +
+          'Here are the most relevant notes:\n\n{{notes}}\n\n' +
+          'Summarize what my notes say about the topic, cite note IDs for every claim, ' +
+          'and point out gaps or open questions. Use search_kura_notes or get_note if ' +
+          'you need more detail.',
+      },
+    ],
+  },
+  {
+    name: 'weekly_review',
+    title: 'Weekly review',
+    description: 'Review the notes created or updated since a date',
+    arguments: [
+      {
+        name: 'since',
+        description: 'Start of the review period (YYYY-MM-DD)',
+        type: 'date',
+        required: true,
+      },
+      {
+        name: 'focus',
+        description: 'What to focus the review on',
+        default: 'progress decisions open questions',
+      },
+    ],
+    search: { query: '{{focus}}', dateFrom: '{{since}}', limit: 20 },
+    messages: [
+      {
+        role: 'user',
+        text:
+          'Prepare a weekly review of my Kura notes since {{since}}, focusing on {{focus}}.\n\n' +
+          'Notes from this period:\n\n{{notes}}\n\n' +
+          'Group the review into: what got done, decisions made, open questions and ' +
+          'suggested next steps. Cite note IDs. Use list_recent_notes to check for notes ' +
+          'the search missed.',
+      },
+    ],
+  },
+  {
+    name: 'meeting_note',
+    title: 'Conversation to meeting note',
+    description: 'Turn a conversation into a structured meeting note and save it to Kura',
+    arguments: [
+      {
+        name: 'conversation',
+        description: 'Transcript or summary of the conversation',
+        required: true,
+      },
+      {
+        name: 'topic',
+        description: 'Meeting topic, used to find related notes',
+      },
+    ],
+    search: { query: '{{topic}}', limit: 5 },
+    messages: [
+      {
+        role: 'user',
+        text:
+          'Turn this conversation into a meeting note:\n\n{{conversation}}\n\n' +
+          'Related notes already in Kura:\n\n{{notes}}\n\n' +
+          'Write the note in markdown with the sections Summary, Decisions, Action items ' +
+          '(with owners) and Open questions. Reference related note IDs where relevant. ' +
+          'Show me the draft, and once I approve it, save it with create_note ' +
+          '(contentType "markdown", tags including "meeting").',
+      },
+    ],
+  },
+  {
+    name: 'find_contradictions',
+    title: 'Find contradictions',
+    description: 'Find statements that contradict each other among notes with a tag',
+    arguments: [
+      { name: 'tag', description: 'Tag of the notes to compare', type: 'tag', required: true },
+      {
+        name: 'topic',
+        description: 'Narrow the comparison to a topic',
+      },
+    ],
+    search: { query: '{{topic}} {{tag}}', tags: ['{{tag}}'], limit: 20 },
+    messages: [
+      {
+        role: 'user',
+        text:
+          'Find contradictions among my Kura notes tagged #{{tag}}.\n\n' +
+          'Notes:\n\n{{notes}}\n\n' +
+          'List every pair of statements that contradict each other or are inconsistent, ' +
+          'with both note IDs, the conflicting statements and which one looks more recent. ' +
+          'Use get_note to read full notes before concluding. If there are no ' +
+          'contradictions, say so.',
+      },
+    ],
+  },
+];
+
+/**
+ * Catalog of prompts: the built-in prompts plus those in the prompts directory
+ *
+ * The directory is read on first use. Files hold one prompt definition or an
+ * array of them; a prompt with the name of a built-in replaces it. Invalid
+ * definitions are logged and skipped.
+ */
+export class PromptCatalog {
+  private prompts?: Promise<Map<string, PromptDefinition>>;
+
+  constructor(private promptsDir?: string) {}
+
+  /**
+   * List prompts
+   *
+   * @throws {InvalidCursorError} If the cursor is malformed
+   */
+  async list(cursor?: string): Promise<ListPromptsResult> {
+    const prompts = [...(await this.load()).values()].map((prompt) => ({
+      name: prompt.name,
+      ...(prompt.title && { title: prompt.title }),
+      ...(prompt.description && { description: prompt.description }),
+      arguments: prompt.arguments.map((arg) => ({
+        name: arg.name,
+        ...(arg.title && { title: arg.title }),
+        ...(arg.description && { description: arg.description }),
+        required: arg.required,
+      })),
+    }));
+
+    const page = paginate(prompts, cursor);
+    return {
+      prompts: page.items,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  }
+
+  /**
+   * Render a prompt with the given arguments
+   *
+   * @param accessToken - OAuth access token to authenticate with Kura
+   * @param name - Prompt name
+   * @param args - Argument values
+   * @param signal - Optional signal to cancel the call
+   * @throws {PromptNotFoundError} If there is no prompt with that name
+   * @throws {InvalidPromptArgumentsError} If arguments are missing or invalid
+   * @throws {KuraApiError} If the search fails
+   */
+  async get(
+    accessToken: string,
+    name: string,
+    args: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<GetPromptResult> {
+    const prompt = (await this.load()).get(name);
+    if (!prompt) {
+      throw new PromptNotFoundError(name);
+    }
+
+    const values = resolveArguments(prompt, args);
+    const notes = prompt.search
+      ? await searchNotes(accessToken, prompt.search, values, signal)
+      : [];
+    values[NOTES_PLACEHOLDER] = formatNotes(notes);
+
+    const messages: PromptMessage[] = prompt.messages.map((message) => ({
+      role: message.role,
+      content: { type: 'text', text: render(message.text, values).trim() },
+    }));
+
+    return {
+      ...(prompt.description && { description: prompt.description }),
+      messages,
+    };
+  }
+
+  /**
+   * Look up the declaration of a prompt argument
+   *
+   * @returns The argument, or undefined if the prompt has no such argument
+   * @throws {PromptNotFoundError} If there is no prompt with that name
+   */
+  async getArgument(
+    promptName: string,
+    argumentName: string
+  ): Promise<PromptArgumentDefinition | undefined> {
+    const prompt = (await this.load()).get(promptName);
+    if (!prompt) {
+      throw new PromptNotFoundError(promptName);
+    }
+    return prompt.arguments.find((arg) => arg.name === argumentName);
+  }
+
+  private load(): Promise<Map<string, PromptDefinition>> {
+    if (!this.prompts) {
+      this.prompts = this.loadPrompts();
+    }
+    return this.prompts;
+  }
+
+  private async loadPrompts(): Promise<Map<string, PromptDefinition>> {
+    const prompts = new Map<string, PromptDefinition>();
+    BUILT_IN_PROMPTS.forEach((input) => {
+      const prompt = promptDefinitionSchema.parse(input);
+      prompts.set(prompt.name, prompt);
+    });
+
+    if (!this.promptsDir) {
+      return prompts;
+    }
+
+    let files: string[];
+    try {
+      files = (await readdir(this.promptsDir)).filter((file) => file.endsWith('.json')).sort();
+    } catch (error) {
+      logger.warn({ error, promptsDir: this.promptsDir }, 'Failed to read prompts directory');
+      return prompts;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(this.promptsDir, file);
+      let content: unknown;
+      try {
+        content = JSON.parse(await readFile(filePath, 'utf8'));
+      } catch (error) {
+        logger.warn({ error, file: filePath }, 'Skipping unreadable prompt file');
+        continue;
+      }
+
+      const entries = Array.isArray(content) ? content : [content];
+      entries.forEach((entry, index) => {
+        const parsed = promptDefinitionSchema.safeParse(entry);
+        if (parsed.success) {
+          prompts.set(parsed.data.name, parsed.data);
+        } else {
+          logger.warn(
+            { file: filePath, index, issues: parsed.error.issues },
+            'Skipping invalid prompt definition'
+          );
+        }
+      });
+    }
+
+    return prompts;
+  }
+}
+
+/**
+ * Check the arguments against the prompt's declarations and apply defaults
+ *
+ * @throws {InvalidPromptArgumentsError} If arguments are missing or invalid
+ */
+function resolveArguments(
+  prompt: PromptDefinition,
+  args: Record<string, unknown>
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  const errors: Array<{ argument: string; message: string }> = [];
+
+  for (const arg of prompt.arguments) {
+    const raw = args[arg.name];
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+
+    if (value === undefined || value === null || value === '') {
+      if (arg.required) {
+        errors.push({ argument: arg.name, message: 'is required' });
+      }
+      values[arg.name] = arg.default ?? '';
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      errors.push({ argument: arg.name, message: 'must be a string' });
+      continue;
+    }
+
+    const typeError = checkArgumentType(arg.type, value);
+    if (typeError) {
+      errors.push({ argument: arg.name, message: typeError });
+      continue;
+    }
+
+    values[arg.name] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidPromptArgumentsError(errors);
+  }
+
+  return values;
+}
+
+/**
+ * Validate an argument value against its declared type
+ *
+ * @returns An error message, or undefined if the value is valid
+ */
+function checkArgumentType(
+  type: PromptArgumentDefinition['type'],
+  value: string
+): string | undefined {
+  switch (type) {
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : 'must be a date (YYYY-MM-DD)';
+    case 'tag':
+      return /^[^\s,]+$/.test(value) ? undefined : 'must be a single tag without spaces or commas';
+    case 'integer':
+      return /^-?\d+$/.test(value) ? undefined : 'must be an integer';
+    case 'note_id':
+    case 'string':
+      return undefined;
+  }
+}
+
+/**
+ * Run the prompt's search with its templates filled in
+ *
+ * The search is skipped when the query is empty after rendering, e.g. when
+ * it only uses optional arguments that were not given.
+ */
+async function searchNotes(
+  accessToken: string,
+  search: NonNullable<PromptDefinition['search']>,
+  values: Record<string, string>,
+  signal?: AbortSignal
+): Promise<KuraSearchResult[]> {
+  const query = render(search.query, values).trim();
+  if (!query) {
+    return [];
+  }
+
+  const renderList = (templates?: string[]) => {
+    const list = templates?.map((template) => render(template, values).trim()).filter(Boolean);
+    return list && list.length > 0 ? list : undefined;
+  };
+
+  const params: SearchParams = {
+    query,
+    limit: search.limit,
+    tags: renderList(search.tags),
+    contentType: renderList(search.contentType),
+    dateFrom: search.dateFrom ? render(search.dateFrom, values).trim() || undefined : undefined,
+    dateTo: search.dateTo ? render(search.dateTo, values).trim() || undefined : undefined,
+  };
+
+  const searchResponse = await getKuraClient().search(accessToken, params, signal);
+  return searchResponse.results;
+}
+
+/**
+ * Replace {{name}} placeholders; unknown names become empty strings
+ */
+function render(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Format search results as note excerpts for embedding in a prompt
+ */
+function formatNotes(results: KuraSearchResult[]): string {
+  if (results.length === 0) {
+    return '_No matching notes found._';
+  }
+
+  return results
+    .map((result, index) => {
+      let text = `### ${index + 1}. ${result.title}\n`;
+      text += `ID: ${result.id} (${noteUri(result.id)})`;
+
+      if (result.metadata.updatedAt) {
+        text += ` | Updated: ${result.metadata.updatedAt.slice(0, 10)}`;
+      }
+      if (result.metadata.tags && result.metadata.tags.length > 0) {
+        text += ` | Tags: ${result.metadata.tags.map((tag) => `#${tag}`).join(', ')}`;
+      }
+
+      return `${text}\n\n${result.excerpt}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Singleton instance
+ */
+export const promptCatalog = new PromptCatalog(config.PROMPTS_DIR);
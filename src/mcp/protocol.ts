@@ -0,0 +1,252 @@
+/**
+ * JSON-RPC 2.0 message types and helpers used by the MCP transports
+ */
+
+/**
+ * JSON-RPC 2.0 request id
+ */
+export type JsonRpcId = string | number | null;
+
+/**
+ * Map key for a request id
+ *
+ * Tagged with the id's type, so the ids 1 and "1" stay apart.
+ */
+export function requestKey(requestId: JsonRpcId): string {
+  return `${typeof requestId}:${requestId}`;
+}
+
+/**
+ * JSON-RPC 2.0 request structure
+ *
+ * A request without an id is a notification and gets no response.
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+/**
+ * JSON-RPC 2.0 response structure
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+/**
+ * JSON-RPC 2.0 error structure
+ */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * Any message that can be written to a client stream
+ */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse;
+
+/**
+ * A message or a batch of messages, written to the client as one unit
+ */
+export type JsonRpcPayload = JsonRpcMessage | JsonRpcMessage[];
+
+/**
+ * JSON-RPC 2.0 error codes
+ */
+export enum JsonRpcErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  /** MCP: resources/read for an unknown resource */
+  RESOURCE_NOT_FOUND = -32002,
+  /** KOmcp: the access token was rejected by Kura */
+  TOKEN_EXPIRED = -32010,
+  /** KOmcp: the token lacks a required scope */
+  INSUFFICIENT_SCOPE = -32011,
+  /** KOmcp: Kura could not be reached or failed */
+  KURA_UNAVAILABLE = -32012,
+  /** KOmcp: Kura is rate limiting the user */
+  RATE_LIMITED = -32013,
+  /** KOmcp: the user must confirm a destructive action first */
+  CONFIRMATION_REQUIRED = -32014,
+  /** KOmcp: the note was changed since the client read it */
+  CONFLICT = -32015,
+}
+
+/**
+ * Check whether a request is a notification (no id member)
+ */
+export function isNotification(message: JsonRpcRequest): boolean {
+  return !('id' in message) || message.id === undefined;
+}
+
+/**
+ * Create JSON-RPC 2.0 success response
+ */
+export function createSuccessResponse(id: JsonRpcId | undefined, result: any): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id: id ?? null,
+    result,
+  };
+}
+
+/**
+ * Create JSON-RPC 2.0 error response
+ */
+export function createErrorResponse(
+  id: JsonRpcId | undefined,
+  code: number,
+  message: string,
+  data?: any
+): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id: id ?? null,
+    error: {
+      code,
+      message,
+      ...(data && { data }),
+    },
+  };
+}
+
+/**
+ * Create JSON-RPC 2.0 request (server-to-client)
+ */
+export function createRequest(
+  id: string | number,
+  method: string,
+  params?: unknown
+): JsonRpcRequest {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method,
+    ...(params !== undefined && { params }),
+  };
+}
+
+/**
+ * Create JSON-RPC 2.0 notification
+ */
+export function createNotification(method: string, params?: unknown): JsonRpcRequest {
+  return {
+    jsonrpc: '2.0',
+    method,
+    ...(params !== undefined && { params }),
+  };
+}
+
+/**
+ * Messages of a transport payload, sorted by kind
+ */
+export interface ClassifiedMessages {
+  requests: JsonRpcRequest[];
+  notifications: JsonRpcRequest[];
+  responses: JsonRpcResponse[];
+  /** Error responses for malformed entries */
+  errors: JsonRpcResponse[];
+}
+
+/**
+ * Sort received messages (e.g. the entries of a POST body) into requests,
+ * notifications and client responses. Malformed entries produce per-item error responses
+ * instead of failing the whole body.
+ *
+ * Requests are tracked by id while they run, so a request with a null id,
+ * or with the id of an earlier request in the same body, is rejected too.
+ */
+export function classifyMessages(messages: unknown[]): ClassifiedMessages {
+  const classified: ClassifiedMessages = {
+    requests: [],
+    notifications: [],
+    responses: [],
+    errors: [],
+  };
+  const requestKeys = new Set<string>();
+
+  for (const message of messages) {
+    const entry = message as Partial<JsonRpcRequest & JsonRpcResponse> | null;
+    const id = isValidId(entry?.id) ? entry?.id : null;
+
+    if (!entry || typeof entry !== 'object' || entry.jsonrpc !== '2.0') {
+      classified.errors.push(
+        createErrorResponse(
+          id,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Invalid JSON-RPC version. Must be "2.0"'
+        )
+      );
+      continue;
+    }
+
+    if ('id' in entry && !isValidId(entry.id)) {
+      classified.errors.push(
+        createErrorResponse(
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Invalid id field. Must be a string, number or null'
+        )
+      );
+      continue;
+    }
+
+    if (entry.method === undefined && ('result' in entry || 'error' in entry)) {
+      classified.responses.push(entry as JsonRpcResponse);
+      continue;
+    }
+
+    if (!entry.method || typeof entry.method !== 'string') {
+      classified.errors.push(
+        createErrorResponse(id, JsonRpcErrorCode.INVALID_REQUEST, 'Missing or invalid method field')
+      );
+      continue;
+    }
+
+    const rpcRequest = entry as JsonRpcRequest;
+    if (isNotification(rpcRequest)) {
+      classified.notifications.push(rpcRequest);
+      continue;
+    }
+
+    if (id === null) {
+      classified.errors.push(
+        createErrorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Request id must not be null')
+      );
+      continue;
+    }
+
+    if (requestKeys.has(requestKey(id))) {
+      classified.errors.push(
+        createErrorResponse(
+          id,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          `Duplicate request id ${JSON.stringify(id)} in batch`
+        )
+      );
+      continue;
+    }
+
+    requestKeys.add(requestKey(id));
+    classified.requests.push(rpcRequest);
+  }
+
+  return classified;
+}
+
+/**
+ * Whether a value is allowed as a JSON-RPC id
+ */
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || typeof id === 'number';
+}
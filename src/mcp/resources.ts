@@ -0,0 +1,244 @@
+/**
+ * MCP Resources: Kura notes addressable by URI
+ *
+ * - kura://notes/{id}: Full content of one note
+ * - kura://recent: The most recently created or updated notes
+ * - kura://tags/{tag}: Notes carrying a tag
+ */
+
+import { getKuraClient, KuraApiError, KuraNoteContent } from '../services/kura-client';
+import {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '../types/mcp';
+import { paginate } from './pagination';
+
+/**
+ * Error thrown when a URI does not name an existing resource
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(public uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+/**
+ * Build the URI of a note resource
+ */
+export function noteUri(noteId: string): string {
+  return `kura://notes/${encodeURIComponent(noteId)}`;
+}
+
+/**
+ * Build the URI of a tag resource
+ */
+export function tagUri(tag: string): string {
+  return `kura://tags/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * URI of the recent notes resource
+ */
+export const RECENT_NOTES_URI = 'kura://recent';
+
+/**
+ * Resource templates advertised by resources/templates/list
+ */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'kura://notes/{id}',
+    name: 'note',
+    title: 'Kura note',
+    description: 'Full content of a Kura note by ID',
+  },
+  {
+    uriTemplate: 'kura://tags/{tag}',
+    name: 'notes-by-tag',
+    title: 'Notes by tag',
+    description: 'Notes carrying the given tag, with links to their note resources',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Resource URI split into its kind and parameter
+ */
+type ParsedResourceUri =
+  | { kind: 'note'; noteId: string }
+  | { kind: 'recent' }
+  | { kind: 'tag'; tag: string };
+
+/**
+ * Parse a kura:// resource URI
+ *
+ * @returns The parsed URI, or undefined if it does not match any resource
+ *   or names a note id that is not a single path segment
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | undefined {
+  if (uri === RECENT_NOTES_URI) {
+    return { kind: 'recent' };
+  }
+
+  const match = /^kura:\/\/(notes|tags)\/([^/]+)$/.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]!);
+  } catch {
+    return undefined;
+  }
+
+  if (match[1] === 'tags') {
+    return { kind: 'tag', tag: value };
+  }
+
+  // Note ids become a path segment of the Kura URL; a decoded "/" or ".."
+  // would reach other Kura endpoints
+  if (value.includes('/') || value.includes('..')) {
+    return undefined;
+  }
+
+  return { kind: 'note', noteId: value };
+}
+
+/**
+ * List concrete resources: the recent notes view followed by each recent note
+ *
+ * @param accessToken - OAuth access token to authenticate with Kura
+ * @param cursor - Pagination cursor from a previous page
+ * @param signal - Optional signal to cancel the call
+ * @throws {InvalidCursorError} If the cursor is malformed
+ * @throws {KuraApiError} If the Kura API call fails
+ */
+export async function listResources(
+  accessToken: string,
+  cursor?: string,
+  signal?: AbortSignal
+): Promise<ListResourcesResult> {
+  const recentNotes = await getKuraClient().listRecentNotes(accessToken, signal);
+
+  const resources: Resource[] = [
+    {
+      uri: RECENT_NOTES_URI,
+      name: 'recent-notes',
+      title: 'Recent notes',
+      description: 'The most recently created or updated notes',
+      mimeType: 'application/json',
+    },
+    ...recentNotes.notes.map((note) => ({
+      uri: noteUri(note.id),
+      name: note.id,
+      title: note.title,
+      mimeType: mimeTypeFor(note.contentType),
+      annotations: { lastModified: note.updatedAt },
+    })),
+  ];
+
+  const page = paginate(resources, cursor);
+  return {
+    resources: page.items,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+  };
+}
+
+/**
+ * List resource templates
+ *
+ * @throws {InvalidCursorError} If the cursor is malformed
+ */
+export function listResourceTemplates(cursor?: string): ListResourceTemplatesResult {
+  const page = paginate(RESOURCE_TEMPLATES, cursor);
+  return {
+    resourceTemplates: page.items,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+  };
+}
+
+/**
+ * Read a resource by URI
+ *
+ * @param accessToken - OAuth access token to authenticate with Kura
+ * @param uri - Resource URI
+ * @param signal - Optional signal to cancel the call
+ * @throws {ResourceNotFoundError} If the URI is unknown or the note does not exist
+ * @throws {KuraApiError} If the Kura API call fails
+ */
+export async function readResource(
+  accessToken: string,
+  uri: string,
+  signal?: AbortSignal
+): Promise<ReadResourceResult> {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  const kuraClient = getKuraClient();
+
+  switch (parsed.kind) {
+    case 'note': {
+      let note: KuraNoteContent;
+      try {
+        note = await kuraClient.getNote(accessToken, parsed.noteId, signal);
+      } catch (error) {
+        if (error instanceof KuraApiError && error.statusCode === 404) {
+          throw new ResourceNotFoundError(uri);
+        }
+        throw error;
+      }
+
+      return {
+        contents: [{ uri, mimeType: mimeTypeFor(note.contentType), text: note.content }],
+      };
+    }
+
+    case 'recent': {
+      const recentNotes = await kuraClient.listRecentNotes(accessToken, signal);
+      const notes = recentNotes.notes.map((note) => ({ uri: noteUri(note.id), ...note }));
+
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify({ notes }, null, 2) }],
+      };
+    }
+
+    case 'tag': {
+      const searchResponse = await kuraClient.search(
+        accessToken,
+        { query: parsed.tag, tags: [parsed.tag], limit: 50 },
+        signal
+      );
+      const notes = searchResponse.results.map((result) => ({
+        uri: noteUri(result.id),
+        id: result.id,
+        title: result.title,
+        contentType: result.contentType,
+        tags: result.metadata.tags,
+        updatedAt: result.metadata.updatedAt,
+      }));
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify({ tag: parsed.tag, notes }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Map a Kura content type to a MIME type
+ */
+function mimeTypeFor(contentType: string): string {
+  return contentType === 'markdown' ? 'text/markdown' : 'text/plain';
+}
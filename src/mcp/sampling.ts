@@ -0,0 +1,84 @@
+/**
+ * Sampling: asking the client's model to generate text
+ *
+ * Tools use sampling/createMessage to have the client's LLM write text
+ * (e.g. a summary) without the server needing model access of its own.
+ * The client decides which model to use and may ask the user first.
+ */
+
+import { JsonRpcId } from './protocol';
+import { ClientRequestError, McpSession } from './session';
+
+/**
+ * Text generation request
+ */
+export interface SamplingRequest {
+  systemPrompt: string;
+  /** User message sent to the model */
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+/**
+ * Text generated by the client's model
+ */
+export interface SamplingResult {
+  text: string;
+  /** Model the client used, if reported */
+  model?: string;
+  stopReason?: string;
+}
+
+/**
+ * Sends sampling requests to the client of a session
+ */
+export class ClientSampler {
+  constructor(
+    private session: McpSession,
+    private relatedRequestId?: JsonRpcId,
+    private signal?: AbortSignal
+  ) {}
+
+  /**
+   * Whether the client declared the sampling capability
+   */
+  get isSupported(): boolean {
+    return this.session.clientCapabilities.sampling !== undefined;
+  }
+
+  /**
+   * Generate text with the client's model
+   *
+   * @throws {ClientRequestError} If the client rejects or fails the request,
+   *   or answers with something other than text
+   */
+  async createMessage(request: SamplingRequest): Promise<SamplingResult> {
+    const result = await this.session.request(
+      'sampling/createMessage',
+      {
+        messages: [{ role: 'user', content: { type: 'text', text: request.prompt } }],
+        systemPrompt: request.systemPrompt,
+        includeContext: 'none',
+        maxTokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      },
+      { relatedRequestId: this.relatedRequestId, signal: this.signal }
+    );
+
+    const { content, model, stopReason } = (result ?? {}) as {
+      content?: { type?: unknown; text?: unknown };
+      model?: unknown;
+      stopReason?: unknown;
+    };
+    if (content?.type !== 'text' || typeof content.text !== 'string') {
+      throw new ClientRequestError('Client answered sampling/createMessage without text');
+    }
+
+    return {
+      text: content.text,
+      model: typeof model === 'string' ? model : undefined,
+      stopReason: typeof stopReason === 'string' ? stopReason : undefined,
+    };
+  }
+}
@@ -0,0 +1,504 @@
+import { randomUUID } from 'node:crypto';
+import { ClientCapabilities, Implementation, LoggingLevel } from '../types/mcp';
+import {
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcPayload,
+  JsonRpcResponse,
+  createNotification,
+  createRequest,
+  requestKey,
+} from './protocol';
+import { SseStream } from './sse';
+import { EventStore, InMemoryEventStore } from './event-store';
+import { config } from '../config/env';
+
+/**
+ * Lifecycle state of an MCP session
+ *
+ * - new: no initialize request has been handled yet
+ * - initializing: initialize succeeded, waiting for notifications/initialized
+ * - ready: client confirmed initialization, normal operation
+ */
+export type SessionState = 'new' | 'initializing' | 'ready';
+
+/**
+ * Sessions without activity for this long are closed
+ */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * How often expired sessions are swept
+ */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Stream id of the standalone GET stream
+ */
+const STANDALONE_STREAM_ID = 'standalone';
+
+/**
+ * How long the client has to answer a server-to-client request
+ *
+ * Generous, since requests like elicitation wait for the user.
+ */
+const CLIENT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Error for a server-to-client request that failed
+ *
+ * code and data are set when the client answered with a JSON-RPC error.
+ */
+export class ClientRequestError extends Error {
+  constructor(
+    message: string,
+    public code?: number,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'ClientRequestError';
+  }
+}
+
+/**
+ * Options of a server-to-client request
+ */
+export interface ClientRequestOptions {
+  /** Request being served; the request goes out on its stream */
+  relatedRequestId?: JsonRpcId;
+  /** Abort to cancel the request (the client gets notifications/cancelled) */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Server-to-client request waiting for the client's response
+ */
+interface PendingClientRequest {
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Stream carrying the responses to one POST (a single request or a batch)
+ */
+interface RequestStream {
+  /** Stream id used for event ids and replay */
+  streamId: string;
+  /** Current connection, replaced when the client resumes */
+  stream?: SseStream;
+  /** Requests on this stream still waiting for their response */
+  pending: Set<string>;
+}
+
+/**
+ * State kept for one MCP client session
+ *
+ * A session is created by the initialize request and identified by the
+ * Mcp-Session-Id header on every later request. It owns the SSE streams
+ * used to deliver server-to-client messages. Every message is stored in the
+ * event store before it is written, so a client that reconnects with
+ * Last-Event-ID gets the events it missed.
+ */
+export class McpSession {
+  state: SessionState = 'new';
+  protocolVersion?: string;
+  clientInfo?: Implementation;
+  clientCapabilities: ClientCapabilities = {};
+  lastActivityAt = Date.now();
+  /** Latest access token presented on this session, used for background work */
+  accessToken?: string;
+  /** Minimum level of log messages sent to the client, set with logging/setLevel */
+  logLevel: LoggingLevel = 'warning';
+
+  /** Standalone stream opened with GET /mcp */
+  private standaloneStream?: SseStream;
+  /** In-flight requests answered over SSE, keyed by request id */
+  private streamedRequests = new Map<string, RequestStream>();
+  /** Counter for request stream ids */
+  private streamCounter = 0;
+  /** Abort controllers of requests being processed, keyed by request id */
+  private inFlight = new Map<string, AbortController>();
+  /** Callbacks run when the session is closed */
+  private closeListeners: Array<() => void> = [];
+  /** Server-to-client requests waiting for a response, keyed by request id */
+  private pendingClientRequests = new Map<string, PendingClientRequest>();
+  /** Counter for server-to-client request ids */
+  private clientRequestCounter = 0;
+
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly clientId: string,
+    private eventStore: EventStore
+  ) {}
+
+  /**
+   * Whether the initialize handshake has completed far enough for normal requests
+   */
+  get isInitialized(): boolean {
+    return this.state !== 'new';
+  }
+
+  /**
+   * Whether a standalone GET stream is currently open
+   */
+  get hasStandaloneStream(): boolean {
+    return this.standaloneStream?.isOpen ?? false;
+  }
+
+  /**
+   * Record activity to keep the session from expiring
+   */
+  touch(): void {
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * Open the standalone stream for server-initiated messages
+   */
+  openStandaloneStream(): SseStream {
+    const stream = new SseStream();
+    this.attachStandaloneStream(stream);
+    return stream;
+  }
+
+  /**
+   * Open a stream that carries the responses to the requests of one POST
+   */
+  openRequestStream(requestIds: JsonRpcId[]): SseStream {
+    const stream = new SseStream();
+    const requestStream: RequestStream = {
+      streamId: `request-${++this.streamCounter}`,
+      stream,
+      pending: new Set(requestIds.map(requestKey)),
+    };
+
+    requestStream.pending.forEach((key) => this.streamedRequests.set(key, requestStream));
+    return stream;
+  }
+
+  /**
+   * Finish a request answered over SSE
+   *
+   * The stream is closed once every request on it has its response.
+   */
+  completeRequest(requestId: JsonRpcId): void {
+    const key = requestKey(requestId);
+    const requestStream = this.streamedRequests.get(key);
+    if (!requestStream) {
+      return;
+    }
+
+    this.streamedRequests.delete(key);
+    requestStream.pending.delete(key);
+    if (requestStream.pending.size === 0) {
+      requestStream.stream?.end();
+    }
+  }
+
+  /**
+   * Track a request that is being processed so it can be cancelled
+   *
+   * @returns Controller whose signal is aborted on cancellation
+   */
+  beginRequest(requestId: JsonRpcId): AbortController {
+    const controller = new AbortController();
+    this.inFlight.set(requestKey(requestId), controller);
+    return controller;
+  }
+
+  /**
+   * Stop tracking a request once it has finished
+   */
+  endRequest(requestId: JsonRpcId): void {
+    this.inFlight.delete(requestKey(requestId));
+  }
+
+  /**
+   * Cancel an in-flight request (notifications/cancelled)
+   *
+   * @returns false if no such request is in flight
+   */
+  cancelRequest(requestId: JsonRpcId, reason?: string): boolean {
+    const controller = this.inFlight.get(requestKey(requestId));
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort(reason);
+    this.inFlight.delete(requestKey(requestId));
+    return true;
+  }
+
+  /**
+   * Resume a stream after a reconnect
+   *
+   * Replays the events sent after lastEventId, then attaches the new stream
+   * so later messages reach the client. A request stream whose response was
+   * already sent is ended after the replay.
+   *
+   * @returns The resumed stream, or undefined if the event id is unknown or expired
+   */
+  async resumeStream(lastEventId: string): Promise<SseStream | undefined> {
+    const stream = new SseStream();
+    const streamId = await this.eventStore.replayEventsAfter(
+      this.id,
+      lastEventId,
+      (eventId, message) => stream.write(message, eventId)
+    );
+
+    if (!streamId) {
+      return undefined;
+    }
+
+    if (streamId === STANDALONE_STREAM_ID) {
+      this.standaloneStream?.end();
+      this.attachStandaloneStream(stream);
+      return stream;
+    }
+
+    const request = [...this.streamedRequests.values()].find((r) => r.streamId === streamId);
+    if (request) {
+      request.stream?.end();
+      request.stream = stream;
+    } else {
+      stream.end();
+    }
+
+    return stream;
+  }
+
+  /**
+   * Send a message (or batch of messages) to the client
+   *
+   * Messages related to an in-flight streamed request go out on that
+   * request's stream. Everything else uses the standalone stream. The
+   * message is stored even when the target stream is disconnected, so it
+   * can be replayed on resume.
+   *
+   * @returns false if no open stream took the message
+   */
+  async send(message: JsonRpcPayload, relatedRequestId?: JsonRpcId): Promise<boolean> {
+    const request =
+      relatedRequestId !== undefined
+        ? this.streamedRequests.get(requestKey(relatedRequestId))
+        : undefined;
+
+    const streamId = request ? request.streamId : STANDALONE_STREAM_ID;
+    const stream = request ? request.stream : this.standaloneStream;
+
+    const eventId = await this.eventStore.storeEvent(this.id, streamId, message);
+    return stream?.isOpen ? stream.write(message, eventId) : false;
+  }
+
+  /**
+   * Send a notification to the client
+   */
+  async notify(method: string, params?: unknown, relatedRequestId?: JsonRpcId): Promise<boolean> {
+    return this.send(createNotification(method, params), relatedRequestId);
+  }
+
+  /**
+   * Send a request to the client and wait for its response
+   *
+   * @returns The result the client sent back
+   * @throws {ClientRequestError} If the request could not be delivered, the
+   *   client answered with an error, it timed out or it was cancelled
+   */
+  request(method: string, params?: unknown, options: ClientRequestOptions = {}): Promise<unknown> {
+    const { relatedRequestId, signal, timeoutMs = CLIENT_REQUEST_TIMEOUT_MS } = options;
+    const id = `komcp-${++this.clientRequestCounter}`;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingClientRequests.delete(requestKey(id));
+      };
+
+      const timer = setTimeout(() => {
+        settle();
+        void this.notify('notifications/cancelled', { requestId: id, reason: 'Timed out' });
+        reject(new ClientRequestError(`Client did not answer ${method} in time`));
+      }, timeoutMs);
+
+      const onAbort = () => {
+        settle();
+        void this.notify('notifications/cancelled', { requestId: id, reason: 'Cancelled' });
+        reject(new ClientRequestError(`${method} was cancelled`));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingClientRequests.set(requestKey(id), {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      void this.send(createRequest(id, method, params), relatedRequestId).then((sent) => {
+        if (!sent) {
+          this.pendingClientRequests
+            .get(requestKey(id))
+            ?.reject(new ClientRequestError(`No open stream to send ${method} to the client`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Deliver a response from the client to the request waiting for it
+   *
+   * @returns false if no request with this id is waiting
+   */
+  handleResponse(response: JsonRpcResponse): boolean {
+    const pending =
+      response.id !== undefined && response.id !== null
+        ? this.pendingClientRequests.get(requestKey(response.id))
+        : undefined;
+    if (!pending) {
+      return false;
+    }
+
+    if (response.error) {
+      const error: JsonRpcError = response.error;
+      pending.reject(new ClientRequestError(error.message, error.code, error.data));
+    } else {
+      pending.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Register a callback for when the session is closed
+   */
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Abort in-flight requests, close all streams and drop stored events
+   */
+  async close(): Promise<void> {
+    this.closeListeners.forEach((listener) => listener());
+    this.closeListeners = [];
+    this.inFlight.forEach((controller) => controller.abort('Session closed'));
+    this.inFlight.clear();
+    this.pendingClientRequests.forEach((pending) =>
+      pending.reject(new ClientRequestError('Session closed'))
+    );
+    this.standaloneStream?.end();
+    this.streamedRequests.forEach((request) => request.stream?.end());
+    this.streamedRequests.clear();
+    await this.eventStore.clearSession(this.id);
+  }
+
+  private attachStandaloneStream(stream: SseStream): void {
+    stream.startKeepAlive();
+    stream.onClose(() => {
+      if (this.standaloneStream === stream) {
+        this.standaloneStream = undefined;
+      }
+    });
+
+    this.standaloneStream = stream;
+  }
+}
+
+/**
+ * In-memory registry of MCP sessions
+ *
+ * Sessions are bound to the user that created them; a session id presented
+ * with another user's token is treated as unknown.
+ */
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private eventStore: EventStore) {}
+
+  /**
+   * Replace the event store (e.g. with one backed by shared storage)
+   *
+   * Only affects sessions created afterwards.
+   */
+  setEventStore(eventStore: EventStore): void {
+    this.eventStore = eventStore;
+  }
+
+  /**
+   * Create a new session for an authenticated user
+   */
+  create(userId: string, clientId: string): McpSession {
+    this.startSweeper();
+
+    const session = new McpSession(randomUUID(), userId, clientId, this.eventStore);
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a session owned by the given user
+   *
+   * @returns The session, or undefined if it does not exist, expired or belongs to someone else
+   */
+  get(sessionId: string, userId: string): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.userId !== userId) {
+      return undefined;
+    }
+
+    session.touch();
+    return session;
+  }
+
+  /**
+   * Terminate a session and close its streams
+   */
+  async delete(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.delete(sessionId);
+      await session.close();
+    }
+  }
+
+  /**
+   * Periodically remove idle sessions
+   */
+  private startSweeper(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+      this.sessions.forEach((session, id) => {
+        if (session.lastActivityAt < cutoff && !session.hasStandaloneStream) {
+          void this.delete(id);
+        }
+      });
+    }, SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const sessionManager = new SessionManager(
+  new InMemoryEventStore({
+    maxEventsPerSession: config.MCP_EVENT_STORE_MAX_EVENTS,
+    ttlMs: config.MCP_EVENT_STORE_TTL_MS,
+  })
+);
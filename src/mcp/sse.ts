@@ -0,0 +1,99 @@
+import { PassThrough } from 'node:stream';
+import { JsonRpcPayload } from './protocol';
+
+/**
+ * Interval for SSE keep-alive comments (keeps proxies from closing idle streams)
+ */
+const KEEP_ALIVE_INTERVAL_MS = 25000;
+
+/**
+ * Server-Sent Events stream carrying JSON-RPC messages to a client
+ *
+ * The body is a PassThrough stream that is handed to Fastify's reply.send().
+ */
+export class SseStream {
+  readonly body = new PassThrough();
+  private closed = false;
+  private keepAlive?: NodeJS.Timeout;
+  private closeListeners: Array<() => void> = [];
+
+  constructor() {
+    this.body.on('close', () => this.handleClose());
+
+    // Opening comment so the response headers are flushed right away
+    this.body.write(': stream opened\n\n');
+  }
+
+  /**
+   * Whether the stream can still be written to
+   */
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Write a JSON-RPC message or batch as an SSE "message" event
+   *
+   * @param eventId - Id the client can send back as Last-Event-ID to resume
+   * @returns false if the stream is already closed
+   */
+  write(message: JsonRpcPayload, eventId?: string): boolean {
+    return this.writeEvent('message', JSON.stringify(message), eventId);
+  }
+
+  /**
+   * Write an SSE event with a single-line payload
+   *
+   * @returns false if the stream is already closed
+   */
+  writeEvent(event: string, data: string, eventId?: string): boolean {
+    if (this.closed) {
+      return false;
+    }
+
+    const idLine = eventId ? `id: ${eventId}\n` : '';
+    this.body.write(`${idLine}event: ${event}\ndata: ${data}\n\n`);
+    return true;
+  }
+
+  /**
+   * Send periodic comments so idle standalone streams stay open
+   */
+  startKeepAlive(): void {
+    this.keepAlive = setInterval(() => {
+      if (!this.closed) {
+        this.body.write(': keep-alive\n\n');
+      }
+    }, KEEP_ALIVE_INTERVAL_MS);
+    this.keepAlive.unref();
+  }
+
+  /**
+   * Register a callback for when the stream closes (ended or disconnected)
+   */
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * End the stream
+   */
+  end(): void {
+    if (!this.closed) {
+      this.body.end();
+      this.handleClose();
+    }
+  }
+
+  private handleClose(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    if (this.keepAlive) {
+      clearInterval(this.keepAlive);
+    }
+    this.closeListeners.forEach((listener) => listener());
+  }
+}
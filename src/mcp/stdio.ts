@@ -0,0 +1,244 @@
+/**
+ * MCP stdio transport
+ *
+ * Newline-delimited JSON-RPC messages on stdin and stdout, for one local
+ * user. There is no OAuth layer: the Kura access token comes from the
+ * caller (environment variable or token file) and the user holds every
+ * scope, so Kura alone decides what the token may do. Nothing but protocol
+ * messages may be written to stdout.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import { Readable, Writable } from 'node:stream';
+import { FastifyBaseLogger } from 'fastify';
+import { RequiredScope, UserContext } from '../types/auth';
+import {
+  dispatchNotification,
+  dispatchRequest,
+  dispatchResponse,
+  RequestContext,
+} from './dispatcher';
+import { InMemoryEventStore } from './event-store';
+import {
+  JsonRpcErrorCode,
+  JsonRpcPayload,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  classifyMessages,
+  createErrorResponse,
+} from './protocol';
+import { McpSession } from './session';
+
+/**
+ * The single user of a stdio server
+ */
+const LOCAL_USER: UserContext = {
+  userId: 'local',
+  clientId: 'stdio',
+  scopes: Object.values(RequiredScope),
+};
+
+/**
+ * Options of the stdio transport
+ */
+export interface StdioTransportOptions {
+  input: Readable;
+  output: Writable;
+  /** Kura access token to use for the next message */
+  getAccessToken: () => Promise<string>;
+  log: FastifyBaseLogger;
+}
+
+/**
+ * Session of a stdio server
+ *
+ * There is only one stream, so every message, related to a request or not,
+ * is written to the output as it is sent. Nothing needs to be stored for
+ * replay.
+ */
+export class StdioSession extends McpSession {
+  constructor(private output: Writable) {
+    super(
+      randomUUID(),
+      LOCAL_USER.userId,
+      LOCAL_USER.clientId,
+      new InMemoryEventStore({ maxEventsPerSession: 0, ttlMs: 0 })
+    );
+  }
+
+  override send(message: JsonRpcPayload): Promise<boolean> {
+    return Promise.resolve(writeMessage(this.output, message));
+  }
+}
+
+/**
+ * Serves MCP over a pair of streams (usually stdin and stdout)
+ */
+export class StdioTransport {
+  private session: StdioSession;
+  /** Lines are handled one after another, so notifications keep their order */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private options: StdioTransportOptions) {
+    this.session = new StdioSession(options.output);
+
+    // E.g. EPIPE once the client has gone away; later writes are dropped
+    options.output.on('error', (error) => options.log.error({ error }, 'Cannot write to output'));
+  }
+
+  /**
+   * Read messages until the input ends, then close the session
+   *
+   * Requests still in flight when the input ends are cancelled.
+   */
+  async run(): Promise<void> {
+    const lines = createInterface({ input: this.options.input, crlfDelay: Infinity });
+
+    lines.on('line', (line) => {
+      this.queue = this.queue.then(() => this.handleLine(line));
+    });
+
+    await new Promise<void>((resolve) => lines.once('close', resolve));
+    await this.queue;
+    await this.session.close();
+  }
+
+  /**
+   * Handle one line: a single JSON-RPC message or a batch
+   *
+   * Notifications and client responses are handled before the next line is
+   * read; requests run concurrently and are answered when they finish.
+   */
+  private async handleLine(line: string): Promise<void> {
+    if (!line.trim()) {
+      return;
+    }
+
+    const { output, log } = this.options;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(line);
+    } catch {
+      writeMessage(
+        output,
+        createErrorResponse(null, JsonRpcErrorCode.PARSE_ERROR, 'Parse error: invalid JSON')
+      );
+      return;
+    }
+
+    const isBatch = Array.isArray(payload);
+    const messages: unknown[] = isBatch ? (payload as unknown[]) : [payload];
+    if (messages.length === 0) {
+      writeMessage(
+        output,
+        createErrorResponse(
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Invalid Request: batch must not be empty'
+        )
+      );
+      return;
+    }
+
+    const { requests, notifications, responses, errors } = classifyMessages(messages);
+
+    let accessToken: string;
+    try {
+      accessToken = await this.options.getAccessToken();
+    } catch (error) {
+      log.error({ error }, 'Cannot read the Kura access token');
+      const failed = requests.map((rpcRequest) =>
+        createErrorResponse(
+          rpcRequest.id,
+          JsonRpcErrorCode.INTERNAL_ERROR,
+          'Kura access token is not available'
+        )
+      );
+      writeResponses(output, [...errors, ...failed], isBatch);
+      return;
+    }
+    this.session.accessToken = accessToken;
+    this.session.touch();
+
+    for (const response of responses) {
+      dispatchResponse(this.context(accessToken), response);
+    }
+
+    for (const notification of notifications) {
+      dispatchNotification(this.context(accessToken), notification);
+    }
+
+    if (requests.length === 0) {
+      writeResponses(output, errors, isBatch);
+      return;
+    }
+
+    void Promise.all(requests.map((rpcRequest) => this.dispatch(accessToken, rpcRequest)))
+      .then((results) => {
+        // Cancelled requests get no response
+        const answered = results.filter((r): r is JsonRpcResponse => r !== null);
+        writeResponses(output, [...errors, ...answered], isBatch);
+      })
+      .catch((error: unknown) => log.error({ error }, 'Cannot write responses'));
+  }
+
+  /**
+   * Dispatch a request; unexpected failures become an internal error response
+   */
+  private async dispatch(
+    accessToken: string,
+    rpcRequest: JsonRpcRequest
+  ): Promise<JsonRpcResponse | null> {
+    try {
+      return await dispatchRequest(this.context(accessToken, rpcRequest), rpcRequest);
+    } catch (error) {
+      this.options.log.error({ error, requestId: rpcRequest.id }, 'Error handling MCP request');
+      return createErrorResponse(
+        rpcRequest.id,
+        JsonRpcErrorCode.INTERNAL_ERROR,
+        'Internal server error'
+      );
+    }
+  }
+
+  private context(accessToken: string, rpcRequest?: JsonRpcRequest): RequestContext {
+    return {
+      session: this.session,
+      user: LOCAL_USER,
+      accessToken,
+      requestId: rpcRequest?.id ?? undefined,
+      log: this.options.log,
+    };
+  }
+}
+
+/**
+ * Write the responses to one line: an array for a batch, otherwise each on its own
+ */
+function writeResponses(output: Writable, responses: JsonRpcResponse[], isBatch: boolean): void {
+  if (responses.length === 0) {
+    return;
+  }
+
+  if (isBatch) {
+    writeMessage(output, responses);
+  } else {
+    responses.forEach((response) => writeMessage(output, response));
+  }
+}
+
+/**
+ * Write a message (or batch) as one line
+ *
+ * @returns false if the output is already closed or failed
+ */
+function writeMessage(output: Writable, message: JsonRpcPayload): boolean {
+  if (output.writableEnded || output.destroyed) {
+    return false;
+  }
+
+  output.write(`${JSON.stringify(message)}\n`);
+  return true;
+}
@@ -0,0 +1,347 @@
+/**
+ * Resource subscriptions
+ *
+ * Kura has no change feed, so changes are detected by polling
+ * listRecentNotes per user and comparing updatedAt. Subscribed notes outside
+ * the recent window are checked individually with getNote. Notifications go
+ * out over each session's standalone SSE stream:
+ * - notifications/resources/updated for subscribed URIs that changed
+ * - notifications/resources/list_changed when notes enter or leave the
+ *   recent window (created, deleted or pushed out), as resources/list lists
+ *   the recent notes
+ *
+ * A user is polled while one of their sessions has subscriptions or an open
+ * standalone stream, so every client can rely on list_changed.
+ */
+
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { getKuraClient, KuraApiError } from '../services/kura-client';
+import { McpSession } from './session';
+import { parseResourceUri, ResourceNotFoundError, RECENT_NOTES_URI } from './resources';
+
+/**
+ * Subscribed notes outside the recent window checked per poll
+ */
+const MAX_INDIVIDUAL_CHECKS = 50;
+
+/**
+ * Last known state of a note
+ */
+interface NoteVersion {
+  updatedAt: string;
+  tags: string[];
+}
+
+/**
+ * Polling state for one user, shared by all of that user's sessions
+ */
+interface UserWatch {
+  /** Subscribed URIs per session; empty for sessions only listening for list changes */
+  sessions: Map<McpSession, Set<string>>;
+  /** Notes of the last recent-notes poll, undefined before the first poll */
+  recent?: Map<string, NoteVersion>;
+  /** Subscribed notes outside the recent window (null: deleted) */
+  tracked: Map<string, NoteVersion | null>;
+  /** Start time of the last completed poll */
+  lastPollAt: number;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+}
+
+/**
+ * Changes found by one poll
+ */
+interface ChangeSet {
+  /** Notes that were updated, created or deleted, with their tags */
+  changed: Map<string, string[]>;
+  /** Whether notes entered or left the recent window */
+  listChanged: boolean;
+  /** Whether the recent notes view changed */
+  recentChanged: boolean;
+}
+
+/**
+ * Watches Kura for changes to subscribed resources
+ */
+export class NoteWatcher {
+  private watches = new Map<string, UserWatch>();
+
+  constructor(private intervalMs: number) {}
+
+  /**
+   * Subscribe a session to a resource URI
+   *
+   * @throws {ResourceNotFoundError} If the URI is not a Kura resource
+   */
+  subscribe(session: McpSession, uri: string): void {
+    if (!parseResourceUri(uri)) {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    this.addSession(session).add(uri);
+  }
+
+  /**
+   * Watch for list changes on behalf of a session with a standalone stream
+   *
+   * The session is dropped again once it has neither subscriptions nor an
+   * open standalone stream.
+   */
+  watchSession(session: McpSession): void {
+    this.addSession(session);
+  }
+
+  /**
+   * Remove a session's subscription to a resource URI
+   */
+  unsubscribe(session: McpSession, uri: string): void {
+    const watch = this.watches.get(session.userId);
+    const uris = watch?.sessions.get(session);
+    if (!watch || !uris) {
+      return;
+    }
+
+    uris.delete(uri);
+    if (uris.size === 0 && !session.hasStandaloneStream) {
+      this.removeSession(session);
+    }
+  }
+
+  /**
+   * Drop all subscriptions of a session
+   */
+  removeSession(session: McpSession): void {
+    const watch = this.watches.get(session.userId);
+    if (!watch) {
+      return;
+    }
+
+    watch.sessions.delete(session);
+    if (watch.sessions.size === 0) {
+      clearInterval(watch.timer);
+      this.watches.delete(session.userId);
+    }
+  }
+
+  /**
+   * Add a session to its user's watch
+   *
+   * @returns The session's subscribed URIs
+   */
+  private addSession(session: McpSession): Set<string> {
+    const watch = this.getOrCreateWatch(session.userId);
+    let uris = watch.sessions.get(session);
+    if (!uris) {
+      uris = new Set();
+      watch.sessions.set(session, uris);
+      session.onClose(() => this.removeSession(session));
+    }
+
+    // Take the baseline right away so the first interval already detects changes
+    if (!watch.recent) {
+      void this.poll(session.userId);
+    }
+    return uris;
+  }
+
+  /**
+   * Drop sessions that have neither subscriptions nor an open standalone stream
+   */
+  private removeIdleSessions(watch: UserWatch): void {
+    [...watch.sessions].forEach(([session, uris]) => {
+      if (uris.size === 0 && !session.hasStandaloneStream) {
+        this.removeSession(session);
+      }
+    });
+  }
+
+  private getOrCreateWatch(userId: string): UserWatch {
+    let watch = this.watches.get(userId);
+    if (!watch) {
+      const timer = setInterval(() => void this.poll(userId), this.intervalMs);
+      timer.unref();
+
+      watch = {
+        sessions: new Map(),
+        tracked: new Map(),
+        lastPollAt: Date.now(),
+        timer,
+        polling: false,
+      };
+      this.watches.set(userId, watch);
+    }
+    return watch;
+  }
+
+  /**
+   * Poll Kura for one user and notify subscribed sessions
+   */
+  private async poll(userId: string): Promise<void> {
+    let watch = this.watches.get(userId);
+    if (!watch || watch.polling) {
+      return;
+    }
+
+    this.removeIdleSessions(watch);
+    watch = this.watches.get(userId);
+    if (!watch) {
+      return;
+    }
+
+    const accessToken = latestAccessToken(watch);
+    if (!accessToken) {
+      return;
+    }
+
+    watch.polling = true;
+    const pollStartedAt = Date.now();
+
+    try {
+      const changes = await this.detectChanges(watch, accessToken);
+      watch.lastPollAt = pollStartedAt;
+      await notifySessions(watch, changes);
+    } catch (error) {
+      const log = logger.child({ userId });
+      if (error instanceof KuraApiError && error.statusCode === 401) {
+        log.warn('Access token rejected by Kura, waiting for a fresh token to poll changes');
+      } else {
+        log.error({ error }, 'Failed to poll Kura for resource changes');
+      }
+    } finally {
+      watch.polling = false;
+    }
+  }
+
+  /**
+   * Compare Kura's current state with the previous poll
+   */
+  private async detectChanges(watch: UserWatch, accessToken: string): Promise<ChangeSet> {
+    const kuraClient = getKuraClient();
+    const recentNotes = await kuraClient.listRecentNotes(accessToken);
+
+    const current = new Map<string, NoteVersion>(
+      recentNotes.notes.map((note) => [
+        note.id,
+        { updatedAt: note.updatedAt, tags: note.tags ?? [] },
+      ])
+    );
+
+    const changes: ChangeSet = { changed: new Map(), listChanged: false, recentChanged: false };
+    const previous = watch.recent;
+
+    if (previous) {
+      current.forEach((version, id) => {
+        const before = previous.get(id) ?? watch.tracked.get(id);
+        if (!previous.has(id)) {
+          changes.listChanged = true;
+        }
+        if (!before) {
+          // New to us: created, or an older note that was just updated
+          if (Date.parse(version.updatedAt) >= watch.lastPollAt) {
+            changes.changed.set(id, version.tags);
+          }
+        } else if (before.updatedAt !== version.updatedAt) {
+          changes.changed.set(id, [...new Set([...before.tags, ...version.tags])]);
+        }
+      });
+
+      // Deleted notes, and notes pushed out by others, leave the window
+      changes.listChanged ||= [...previous.keys()].some((id) => !current.has(id));
+      changes.recentChanged = changes.listChanged || changes.changed.size > 0;
+    }
+
+    // Subscribed notes that are not in the recent window are checked one by one
+    const subscribedIds = subscribedNoteIds(watch);
+    const outside = [...subscribedIds].filter((id) => !current.has(id));
+
+    for (const id of outside.slice(0, MAX_INDIVIDUAL_CHECKS)) {
+      const before = watch.tracked.has(id) ? watch.tracked.get(id) : previous?.get(id);
+      let version: NoteVersion | null;
+
+      try {
+        const note = await kuraClient.getNote(accessToken, id);
+        version = { updatedAt: note.metadata.updatedAt ?? '', tags: note.metadata.tags ?? [] };
+      } catch (error) {
+        if (!(error instanceof KuraApiError && error.statusCode === 404)) {
+          throw error;
+        }
+        version = null;
+      }
+
+      if (before !== undefined && (before?.updatedAt ?? null) !== (version?.updatedAt ?? null)) {
+        changes.changed.set(id, before?.tags ?? version?.tags ?? []);
+      }
+      watch.tracked.set(id, version);
+    }
+
+    // Notes back in the recent window no longer need individual checks
+    watch.tracked.forEach((_version, id) => {
+      if (current.has(id) || !subscribedIds.has(id)) {
+        watch.tracked.delete(id);
+      }
+    });
+
+    watch.recent = current;
+    return changes;
+  }
+}
+
+/**
+ * Access token of the most recently active session
+ */
+function latestAccessToken(watch: UserWatch): string | undefined {
+  let latest: McpSession | undefined;
+  watch.sessions.forEach((_uris, session) => {
+    if (session.accessToken && (!latest || session.lastActivityAt > latest.lastActivityAt)) {
+      latest = session;
+    }
+  });
+  return latest?.accessToken;
+}
+
+/**
+ * Note ids subscribed through kura://notes/{id} by any session
+ */
+function subscribedNoteIds(watch: UserWatch): Set<string> {
+  const ids = new Set<string>();
+  watch.sessions.forEach((uris) => {
+    uris.forEach((uri) => {
+      const parsed = parseResourceUri(uri);
+      if (parsed?.kind === 'note') {
+        ids.add(parsed.noteId);
+      }
+    });
+  });
+  return ids;
+}
+
+/**
+ * Send notifications for the detected changes
+ */
+async function notifySessions(watch: UserWatch, changes: ChangeSet): Promise<void> {
+  const changedTags = new Set([...changes.changed.values()].flat());
+
+  for (const [session, uris] of watch.sessions) {
+    if (changes.listChanged) {
+      await session.notify('notifications/resources/list_changed');
+    }
+
+    for (const uri of uris) {
+      const parsed = parseResourceUri(uri);
+      const updated =
+        (parsed?.kind === 'note' && changes.changed.has(parsed.noteId)) ||
+        (parsed?.kind === 'tag' && changedTags.has(parsed.tag)) ||
+        (uri === RECENT_NOTES_URI && changes.recentChanged);
+
+      if (updated) {
+        await session.notify('notifications/resources/updated', { uri });
+      }
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const noteWatcher = new NoteWatcher(config.NOTE_WATCH_INTERVAL_MS);
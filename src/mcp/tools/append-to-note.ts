@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { getKuraClient, KuraNoteContent, NoteConflictError } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
+import { ToolResult } from '../../types/mcp';
+import { DomainError, ErrorCode } from '../errors';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+
+/**
+ * Where append_to_note puts the text
+ */
+const POSITIONS = ['end', 'start', 'under_heading'] as const;
+
+/**
+ * Read-edit-write rounds before a conflicting change is reported
+ */
+const EDIT_ATTEMPTS = 2;
+
+/**
+ * Unchanged lines shown around the inserted text in the diff
+ */
+const DIFF_CONTEXT_LINES = 2;
+
+/**
+ * Markdown ATX heading, e.g. "## Decisions"
+ */
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)[ \t]*#*[ \t]*$/;
+
+/**
+ * Start or end of a fenced code block, whose lines are never headings
+ */
+const FENCE_PATTERN = /^[ \t]{0,3}(```|~~~)/;
+
+/**
+ * Input schema for append_to_note
+ */
+export const appendToNoteInputSchema = z
+  .object({
+    note_id: z
+      .string()
+      .min(1)
+      .describe(
+        'The unique ID of the note to add to. You can get note IDs from search results or list_recent_notes.'
+      ),
+    text: z
+      .string()
+      .min(1)
+      .max(100000)
+      .describe(
+        'Text to add, e.g. "- Use PostgreSQL for the cache". It is added as its own lines.'
+      ),
+    position: z
+      .enum(POSITIONS)
+      .default('end')
+      .describe(
+        'Where to add the text: "end" of the note (default), "start" of the note, or ' +
+          '"under_heading" at the end of the section below heading.'
+      ),
+    heading: z
+      .string()
+      .min(1)
+      .max(500)
+      .optional()
+      .describe(
+        'Heading to add the text under; required for position "under_heading" and not allowed ' +
+          'otherwise. Either with its level ("## Decisions") or just the text ("Decisions"). ' +
+          'Matching ignores case.'
+      ),
+    create_heading: z
+      .boolean()
+      .default(false)
+      .describe(
+        'If the heading does not exist, add it at the end of the note with the text below it ' +
+          'instead of failing. Default is false.'
+      ),
+  })
+  .superRefine((input, ctx) => {
+    if (input.position === 'under_heading' && input.heading === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'heading is required for position "under_heading"',
+        path: ['heading'],
+      });
+    } else if (input.position !== 'under_heading' && input.heading !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `heading is only allowed with position "under_heading", not "${input.position}"`,
+        path: ['heading'],
+      });
+    }
+  });
+
+/**
+ * Input parameters for append_to_note tool
+ */
+export type AppendToNoteInput = z.infer<typeof appendToNoteInputSchema>;
+
+/**
+ * Output schema for append_to_note
+ */
+export const appendToNoteOutputSchema = z.object({
+  id: z.string().describe('ID of the note'),
+  title: z.string().describe('Note title'),
+  position: z.enum(POSITIONS).describe('Where the text was added'),
+  heading: z.string().optional().describe('Heading the text was added under'),
+  headingCreated: z.boolean().describe('Whether the heading was added because it did not exist'),
+  startLine: z.number().int().describe('Line number (from 1) of the first added line'),
+  addedLines: z.number().int().describe('Number of lines added'),
+  diff: z
+    .string()
+    .describe(
+      'The change as a unified diff hunk, with a few unchanged lines around the added ones'
+    ),
+  updatedAt: z.string().optional().describe('Last update time after the change (ISO 8601)'),
+});
+
+/**
+ * Structured result of append_to_note
+ */
+export type AppendToNoteOutput = z.infer<typeof appendToNoteOutputSchema>;
+
+/**
+ * Content with the text inserted
+ */
+export interface NoteEdit {
+  content: string;
+  /** Index of the first inserted line */
+  start: number;
+  /** Inserted lines, including a created heading */
+  added: string[];
+  /** All lines of the new content */
+  lines: string[];
+  /** Heading the text went under, as written in the note */
+  heading?: string;
+  headingCreated: boolean;
+}
+
+/**
+ * append_to_note tool definition
+ */
+export const appendToNoteTool = defineTool({
+  name: 'append_to_note',
+  title: 'Append to Note',
+  description:
+    'Add text to an existing note without rewriting it: at the end (e.g. a running log), at the ' +
+    'start, or at the end of the section below a markdown heading (e.g. a bullet under "## Decisions"). ' +
+    'The text is added to the current content of the note; the result shows a diff of the change.',
+  inputSchema: appendToNoteInputSchema,
+  outputSchema: appendToNoteOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_WRITE],
+  completions: { note_id: 'note_id' },
+  execute: (input, ctx) => executeAppendToNote(ctx.accessToken, input, ctx.signal, ctx.log),
+});
+
+/**
+ * Execute the append_to_note tool
+ *
+ * Reads the note's current content, inserts the text and writes the
+ * content back through Kura's /api/content/{id} PATCH endpoint, with the
+ * updatedAt that was read as precondition. If Kura reports that the note
+ * changed in between, the edit is made once more on a fresh read. A note
+ * without updatedAt is not written at all, since nothing could guard the
+ * write.
+ *
+ * @param accessToken - OAuth access token to authenticate with Kura
+ * @param input - Note ID, text and where to put it
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
+ * @returns MCP tool result with a diff of the change
+ * @throws {KuraApiError} If the Kura API call fails
+ * @throws {DomainError} VALIDATION_FAILED if the heading does not exist,
+ *   CONFLICT if the note has no updatedAt or also changed between the
+ *   second read and write
+ */
+export async function executeAppendToNote(
+  accessToken: string,
+  input: AppendToNoteInput,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<AppendToNoteOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
+
+  let edit: NoteEdit;
+  let note: KuraNoteContent;
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await kuraClient.getNote(
+      accessToken,
+      input.note_id,
+      signal,
+      log?.child('kura')
+    );
+    const expectedUpdatedAt = current.metadata.updatedAt;
+    if (!expectedUpdatedAt) {
+      // The write would replace the whole content without any check
+      throw new DomainError(
+        ErrorCode.CONFLICT,
+        `Note "${input.note_id}" has no updatedAt, so changes made to it in the meantime ` +
+          'cannot be detected. It was not changed.',
+        { noteId: input.note_id }
+      );
+    }
+    edit = applyEdit(current.content, input);
+
+    try {
+      note = await kuraClient.updateNote(
+        accessToken,
+        input.note_id,
+        { content: edit.content, expectedUpdatedAt },
+        signal,
+        log?.child('kura')
+      );
+      break;
+    } catch (error) {
+      if (!(error instanceof NoteConflictError) || attempt >= EDIT_ATTEMPTS) {
+        throw error;
+      }
+      log?.log('info', `Note ${input.note_id} changed while adding to it, trying again`, {
+        noteId: input.note_id,
+        attempt,
+      });
+    }
+  }
+
+  log?.log('info', `Added ${edit.added.length} lines to note ${note.id}`, {
+    noteId: note.id,
+    position: input.position,
+    addedLines: edit.added.length,
+    headingCreated: edit.headingCreated,
+  });
+
+  const diff = formatDiff(edit);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatAppendSuccess(note, edit, diff),
+      },
+    ],
+    structuredContent: {
+      id: note.id,
+      title: note.title,
+      position: input.position,
+      heading: edit.heading,
+      headingCreated: edit.headingCreated,
+      startLine: edit.start + 1,
+      addedLines: edit.added.length,
+      diff,
+      updatedAt: note.metadata.updatedAt,
+    },
+    isError: false,
+  };
+}
+
+/**
+ * Insert the text into the content
+ *
+ * The text always gets lines of its own. Under a heading, it goes after
+ * the last non-blank line of the section, i.e. before the next heading of
+ * the same or a higher level. Line endings follow the note (\n or \r\n).
+ *
+ * @throws {DomainError} VALIDATION_FAILED if the heading does not exist and
+ *   create_heading is not set
+ */
+export function applyEdit(content: string, input: AppendToNoteInput): NoteEdit {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+  const text = input.text.replace(/\r?\n$/, '').split(/\r?\n/);
+  const endsWithNewline = content === '' || /\n$/.test(content);
+
+  let start: number;
+  let added = text;
+  let heading: string | undefined;
+  let headingCreated = false;
+
+  if (input.position === 'start') {
+    start = 0;
+  } else if (input.position === 'end') {
+    start = lines.length;
+  } else {
+    const wanted = input.heading!;
+    const section = findSection(lines, wanted);
+
+    if (section) {
+      heading = lines[section.headingIndex]!.trim();
+      start = section.end;
+      while (start > section.headingIndex + 1 && lines[start - 1]!.trim() === '') {
+        start--;
+      }
+    } else if (input.create_heading) {
+      heading = HEADING_PATTERN.test(wanted.trim()) ? wanted.trim() : `## ${wanted.trim()}`;
+      headingCreated = true;
+      start = lines.length;
+      added = [
+        ...(lines.length > 0 && lines[lines.length - 1]!.trim() !== '' ? [''] : []),
+        heading,
+        ...text,
+      ];
+    } else {
+      const headings = lines
+        .filter((_line, index) => isHeadingLine(lines, index))
+        .map((line) => line.trim());
+      throw new DomainError(
+        ErrorCode.VALIDATION_FAILED,
+        `Note "${input.note_id}" has no heading "${wanted}". ` +
+          (headings.length > 0
+            ? `Its headings are: ${headings.join(', ')}.`
+            : 'It has no headings.') +
+          ' Use create_heading to add it.',
+        { field: 'heading', headings }
+      );
+    }
+  }
+
+  const newLines = [...lines.slice(0, start), ...added, ...lines.slice(start)];
+  // Keep the note's final newline, and give a note without one none either
+  const newContent = newLines.join(eol) + (endsWithNewline && newLines.length > 0 ? eol : '');
+
+  return { content: newContent, start, added, lines: newLines, heading, headingCreated };
+}
+
+/**
+ * Find the section below a heading
+ *
+ * A heading given with its level ("## Decisions") only matches headings of
+ * that level; one given as text matches any level. The first match wins.
+ *
+ * @returns Index of the heading line and the index where its section ends
+ */
+function findSection(
+  lines: string[],
+  wanted: string
+): { headingIndex: number; end: number } | undefined {
+  const wantedMatch = HEADING_PATTERN.exec(wanted.trim());
+  const wantedLevel = wantedMatch ? wantedMatch[1]!.length : undefined;
+  const wantedText = normalizeHeading(wantedMatch ? wantedMatch[2]! : wanted);
+
+  let inFence = false;
+  let found: { headingIndex: number; level: number } | undefined;
+
+  for (const [index, line] of lines.entries()) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = inFence ? null : HEADING_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const level = match[1]!.length;
+    if (found) {
+      if (level <= found.level) {
+        return { headingIndex: found.headingIndex, end: index };
+      }
+    } else if (
+      normalizeHeading(match[2]!) === wantedText &&
+      (wantedLevel === undefined || wantedLevel === level)
+    ) {
+      found = { headingIndex: index, level };
+    }
+  }
+
+  return found ? { headingIndex: found.headingIndex, end: lines.length } : undefined;
+}
+
+/**
+ * Whether a line is a heading, i.e. matches the pattern outside a code block
+ */
+function isHeadingLine(lines: string[], index: number): boolean {
+  const fences = lines.slice(0, index).filter((line) => FENCE_PATTERN.test(line)).length;
+  return fences % 2 === 0 && HEADING_PATTERN.test(lines[index]!);
+}
+
+/**
+ * Heading text as compared: trimmed, lower case, single spaces
+ */
+function normalizeHeading(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Format the change as a unified diff hunk
+ *
+ * Only the added lines and a few unchanged lines around them are shown.
+ */
+function formatDiff(edit: NoteEdit): string {
+  const end = edit.start + edit.added.length;
+  const from = Math.max(0, edit.start - DIFF_CONTEXT_LINES);
+  const to = Math.min(edit.lines.length, end + DIFF_CONTEXT_LINES);
+  const oldCount = to - from - edit.added.length;
+
+  const diffLines = edit.lines
+    .slice(from, to)
+    .map((line, offset) =>
+      from + offset >= edit.start && from + offset < end ? `+${line}` : ` ${line}`
+    );
+
+  return [
+    `@@ -${oldCount > 0 ? from + 1 : from},${oldCount} +${from + 1},${to - from} @@`,
+    ...diffLines,
+  ].join('\n');
+}
+
+/**
+ * Format successful append response
+ */
+function formatAppendSuccess(note: KuraNoteContent, edit: NoteEdit, diff: string): string {
+  let text = `# ✏️ Note Updated Successfully\n\n`;
+  text += `**Note ID:** ${note.id}\n`;
+  text += `**Title:** ${note.title}\n`;
+
+  if (edit.heading) {
+    text += `**Added under:** ${edit.heading}${edit.headingCreated ? ' (new heading)' : ''}\n`;
+  }
+
+  text += `**Added:** ${edit.added.length} ${edit.added.length === 1 ? 'line' : 'lines'}\n`;
+  text += `\n\`\`\`diff\n${diff}\n\`\`\``;
+
+  return text;
+}
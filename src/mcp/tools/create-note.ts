@@ -1,16 +1,94 @@
-import { getKuraClient, KuraApiError } from '../../services/kura-client';
+import { z } from 'zod';
+import { getKuraClient } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
 import { ToolResult } from '../../types/mcp';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+import { noteSummarySchema } from './note-output';
+
+/**
+ * Input schema for create_note
+ */
+export const createNoteInputSchema = z.object({
+  content: z
+    .string()
+    .min(1)
+    .max(100000)
+    .describe(
+      'The main content of the note. Can be plain text, markdown, code, or any text content you want to save.'
+    ),
+  title: z
+    .string()
+    .max(500)
+    .optional()
+    .describe(
+      'Optional title for the note. If not provided, Kura will generate one from the content.'
+    ),
+  annotation: z
+    .string()
+    .max(2000)
+    .optional()
+    .describe(
+      'Optional annotation or comment about the note. Use this to add context or metadata.'
+    ),
+  tags: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      'Optional array of tags to organize the note. Examples: ["work", "important"], ["python", "tutorial"]'
+    ),
+  contentType: z
+    .string()
+    .default('text')
+    .describe(
+      'Optional content type hint. Defaults to "text". Can be used to indicate the type of content (e.g., "code", "markdown").'
+    ),
+});
 
 /**
  * Input parameters for create_note tool
  */
-export interface CreateNoteInput {
-  content: string;
-  title?: string;
-  annotation?: string;
-  tags?: string[];
-  contentType?: string;
-}
+export type CreateNoteInput = z.infer<typeof createNoteInputSchema>;
+
+/**
+ * Output schema for create_note
+ */
+export const createNoteOutputSchema = noteSummarySchema
+  .pick({ id: true, contentType: true, tags: true })
+  .extend({
+    title: z
+      .string()
+      .optional()
+      .describe('Title given on creation; Kura generates one when omitted'),
+    message: z.string().describe('Confirmation message from Kura'),
+  });
+
+/**
+ * Structured result of create_note
+ */
+export type CreateNoteOutput = z.infer<typeof createNoteOutputSchema>;
+
+/**
+ * create_note tool definition
+ */
+export const createNoteTool = defineTool({
+  name: 'create_note',
+  title: 'Create Note',
+  description:
+    'Create a new note in Kura. Capture text content with optional title, annotations, and tags. ' +
+    'Perfect for saving important information, meeting notes, code snippets, or any text you want to remember.',
+  inputSchema: createNoteInputSchema,
+  outputSchema: createNoteOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_WRITE],
+  completions: { tags: 'tag' },
+  execute: (input, ctx) => executeCreateNote(ctx.accessToken, input, ctx.signal, ctx.log),
+});
 
 /**
  * Execute the create_note tool
@@ -19,70 +97,65 @@ export interface CreateNoteInput {
  *
  * @param accessToken - OAuth access token to authenticate with Kura
  * @param input - Note creation parameters
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
  * @returns MCP tool result with created note details
+ * @throws {KuraApiError} If the Kura API call fails
  */
 export async function executeCreateNote(
   accessToken: string,
-  input: CreateNoteInput
-): Promise<ToolResult> {
-  try {
-    // Get Kura API client
-    const kuraClient = getKuraClient();
+  input: CreateNoteInput,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<CreateNoteOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
 
-    // Call Kura's create note API
-    const createResponse = await kuraClient.createNote(accessToken, {
+  // Call Kura's create note API
+  const createResponse = await kuraClient.createNote(
+    accessToken,
+    {
       content: input.content,
       title: input.title,
       annotation: input.annotation,
       tags: input.tags,
       contentType: input.contentType,
-    });
-
-    // Format success response
-    const formattedText = formatCreateSuccess(createResponse, input);
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: formattedText,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    // Handle Kura API errors
-    if (error instanceof KuraApiError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Failed to Create Note**\n\n${error.message}\n\n${
-              error.statusCode === 401
-                ? 'Your access token may have expired. Please re-authenticate.'
-                : error.statusCode === 404
-                ? 'Make sure Kura is running and accessible.'
-                : 'Please try again or contact support if the problem persists.'
-            }`,
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    // Handle unexpected errors
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **Unexpected Error**\n\nAn unexpected error occurred while creating the note: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        },
-      ],
-      isError: true,
-    };
-  }
+    },
+    signal,
+    log?.child('kura')
+  );
+
+  log?.log(
+    'info',
+    `Created note ${createResponse.id}`,
+    {
+      noteId: createResponse.id,
+      contentType: input.contentType,
+      contentLength: input.content.length,
+      tagCount: input.tags?.length ?? 0,
+    },
+    { title: input.title, tags: input.tags }
+  );
+
+  // Format success response
+  const formattedText = formatCreateSuccess(createResponse, input);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formattedText,
+      },
+    ],
+    structuredContent: {
+      id: createResponse.id,
+      title: input.title,
+      contentType: input.contentType,
+      tags: input.tags ?? [],
+      message: createResponse.message,
+    },
+    isError: false,
+  };
 }
 
 /**
@@ -1,78 +1,214 @@
-import { getKuraClient, KuraApiError } from '../../services/kura-client';
+import { z } from 'zod';
+import { getKuraClient, KuraNoteContent } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
 import { ToolResult } from '../../types/mcp';
+import { ToolConfirmation } from '../confirmation';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+
+/**
+ * Input schema for delete_note
+ */
+export const deleteNoteInputSchema = z.object({
+  note_id: z
+    .string()
+    .min(1)
+    .describe(
+      'The unique ID of the note to delete. You can get note IDs from search results or list_recent_notes.'
+    ),
+  confirmation_token: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Token from a previous delete_note call that returned CONFIRMATION_REQUIRED. ' +
+        'Only send it after the user has agreed to delete the note.'
+    ),
+});
 
 /**
  * Input parameters for delete_note tool
  */
-export interface DeleteNoteInput {
-  note_id: string;
-}
+export type DeleteNoteInput = z.infer<typeof deleteNoteInputSchema>;
+
+/**
+ * Number of content lines shown when asking the user to confirm
+ */
+const PREVIEW_LINES = 5;
+
+/**
+ * Maximum length of the content preview
+ */
+const PREVIEW_MAX_LENGTH = 500;
+
+/**
+ * Output schema for delete_note
+ */
+export const deleteNoteOutputSchema = z.object({
+  id: z.string().describe('ID of the deleted note'),
+  deleted: z
+    .boolean()
+    .describe('Whether the note was deleted; false if the user declined'),
+});
+
+/**
+ * Structured result of delete_note
+ */
+export type DeleteNoteOutput = z.infer<typeof deleteNoteOutputSchema>;
+
+/**
+ * delete_note tool definition
+ */
+export const deleteNoteTool = defineTool({
+  name: 'delete_note',
+  title: 'Delete Note',
+  description:
+    'Permanently delete a note by its ID. This action cannot be undone. ' +
+    'The user is asked to confirm first: either the client shows a confirmation dialog, ' +
+    'or the call returns CONFIRMATION_REQUIRED with a note preview and a confirmation_token ' +
+    'to send in a second call once the user agrees.',
+  inputSchema: deleteNoteInputSchema,
+  outputSchema: deleteNoteOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_DELETE],
+  completions: { note_id: 'note_id' },
+  execute: (input, ctx) =>
+    executeDeleteNote(ctx.accessToken, input, ctx.confirmation, ctx.signal, ctx.log),
+});
 
 /**
  * Execute the delete_note tool
  *
- * Calls Kura's /api/content/{id} DELETE endpoint to delete a note
+ * Fetches the note so the user can see what is about to be deleted, asks
+ * for confirmation, then calls Kura's /api/content/{id} DELETE endpoint.
  *
  * @param accessToken - OAuth access token to authenticate with Kura
- * @param input - Note ID to delete
- * @returns MCP tool result confirming deletion
+ * @param input - Note ID to delete and optional confirmation token
+ * @param confirmation - Asks the user to confirm the deletion
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
+ * @returns MCP tool result confirming deletion, or reporting that the user declined
+ * @throws {KuraApiError} If the Kura API call fails
+ * @throws {DomainError} CONFIRMATION_REQUIRED if the user must confirm in a second call
  */
 export async function executeDeleteNote(
   accessToken: string,
-  input: DeleteNoteInput
-): Promise<ToolResult> {
-  try {
-    // Get Kura API client
-    const kuraClient = getKuraClient();
+  input: DeleteNoteInput,
+  confirmation: ToolConfirmation,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<DeleteNoteOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
 
-    // Call Kura's delete note API
-    await kuraClient.deleteNote(accessToken, input.note_id);
+  // Show the user what is about to be deleted
+  const note = await kuraClient.getNote(accessToken, input.note_id, signal, log?.child('kura'));
+  const preview = formatContentPreview(note.content);
 
-    // Format success response
-    const formattedText = formatDeleteSuccess(input.note_id);
+  const confirmed = await confirmation.confirm({
+    subject: input.note_id,
+    message: formatDeleteConfirmation(note, preview),
+    label: 'Delete this note permanently',
+    details: {
+      note: {
+        id: note.id,
+        title: note.title,
+        tags: note.metadata.tags ?? [],
+        preview,
+      },
+    },
+    token: input.confirmation_token,
+  });
 
+  if (!confirmed) {
     return {
       content: [
         {
           type: 'text',
-          text: formattedText,
+          text: formatDeleteDeclined(note),
         },
       ],
+      structuredContent: {
+        id: input.note_id,
+        deleted: false,
+      },
       isError: false,
     };
-  } catch (error) {
-    // Handle Kura API errors
-    if (error instanceof KuraApiError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Failed to Delete Note**\n\n${error.message}\n\n${
-              error.statusCode === 404
-                ? 'The note may have already been deleted or the ID is incorrect.'
-                : error.statusCode === 401
-                ? 'Your access token may have expired. Please re-authenticate.'
-                : 'Please try again or contact support if the problem persists.'
-            }`,
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    // Handle unexpected errors
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **Unexpected Error**\n\nAn unexpected error occurred while deleting the note: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        },
-      ],
-      isError: true,
-    };
   }
+
+  // Call Kura's delete note API
+  const deleteResponse = await kuraClient.deleteNote(
+    accessToken,
+    input.note_id,
+    signal,
+    log?.child('kura')
+  );
+
+  // Format success response
+  const formattedText = formatDeleteSuccess(input.note_id);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formattedText,
+      },
+    ],
+    structuredContent: {
+      id: input.note_id,
+      deleted: deleteResponse.success,
+    },
+    isError: false,
+  };
+}
+
+/**
+ * First lines of the note content, shortened if needed
+ */
+function formatContentPreview(content: string): string {
+  const lines = content.split('\n');
+  let preview = lines.slice(0, PREVIEW_LINES).join('\n').trim();
+
+  if (preview.length > PREVIEW_MAX_LENGTH) {
+    preview = preview.substring(0, PREVIEW_MAX_LENGTH).trimEnd();
+  }
+
+  if (preview.length < content.trim().length) {
+    preview += '\n…';
+  }
+
+  return preview;
+}
+
+/**
+ * Format the question shown to the user before deleting
+ */
+function formatDeleteConfirmation(note: KuraNoteContent, preview: string): string {
+  let text = `Delete the note "${note.title}"? This cannot be undone.\n\n`;
+  text += `Note ID: ${note.id}\n`;
+
+  if (note.metadata.tags && note.metadata.tags.length > 0) {
+    text += `Tags: ${note.metadata.tags.map((tag) => `#${tag}`).join(', ')}\n`;
+  }
+
+  text += `\n${preview}`;
+
+  return text;
+}
+
+/**
+ * Format response when the user did not confirm
+ */
+function formatDeleteDeclined(note: KuraNoteContent): string {
+  let text = `# Deletion Cancelled\n\n`;
+  text += `The note "${note.title}" (ID: ${note.id}) was **not** deleted because the user did not confirm.`;
+
+  return text;
 }
 
 /**
@@ -1,12 +1,61 @@
-import { getKuraClient, KuraApiError } from '../../services/kura-client';
+import { z } from 'zod';
+import { getKuraClient, KuraNoteContent } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
 import { ToolResult } from '../../types/mcp';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+import { noteDetailsSchema, noteSummarySchema } from './note-output';
+
+/**
+ * Input schema for get_note
+ */
+export const getNoteInputSchema = z.object({
+  note_id: z
+    .string()
+    .min(1)
+    .describe(
+      'The unique ID of the note to retrieve. You can get note IDs from search results or list_recent_notes.'
+    ),
+});
 
 /**
  * Input parameters for get_note tool
  */
-export interface GetNoteInput {
-  note_id: string;
-}
+export type GetNoteInput = z.infer<typeof getNoteInputSchema>;
+
+/**
+ * Output schema for get_note
+ */
+export const getNoteOutputSchema = noteSummarySchema.merge(noteDetailsSchema).extend({
+  content: z.string().describe('Full note content'),
+});
+
+/**
+ * Structured result of get_note
+ */
+export type GetNoteOutput = z.infer<typeof getNoteOutputSchema>;
+
+/**
+ * get_note tool definition
+ */
+export const getNoteTool = defineTool({
+  name: 'get_note',
+  title: 'Get Note',
+  description:
+    'Retrieve the full content of a specific note by its ID. Returns the complete note including content, ' +
+    'metadata, tags, and timestamps. Use this when you have a note ID from search results and want to read the full note.',
+  inputSchema: getNoteInputSchema,
+  outputSchema: getNoteOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_READ],
+  completions: { note_id: 'note_id' },
+  execute: (input, ctx) => executeGetNote(ctx.accessToken, input, ctx.signal, ctx.log),
+});
 
 /**
  * Execute the get_note tool
@@ -15,64 +64,58 @@ export interface GetNoteInput {
  *
  * @param accessToken - OAuth access token to authenticate with Kura
  * @param input - Note ID to retrieve
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
  * @returns MCP tool result with full note content
+ * @throws {KuraApiError} If the Kura API call fails
  */
 export async function executeGetNote(
   accessToken: string,
-  input: GetNoteInput
-): Promise<ToolResult> {
-  try {
-    // Get Kura API client
-    const kuraClient = getKuraClient();
-
-    // Call Kura's get note API
-    const noteContent = await kuraClient.getNote(accessToken, input.note_id);
-
-    // Format note content for display
-    const formattedText = formatNoteContent(noteContent);
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: formattedText,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    // Handle Kura API errors
-    if (error instanceof KuraApiError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Failed to Retrieve Note**\n\n${error.message}\n\n${
-              error.statusCode === 404
-                ? 'The note may have been deleted or the ID is incorrect.'
-                : error.statusCode === 401
-                ? 'Your access token may have expired. Please re-authenticate.'
-                : 'Please try again or contact support if the problem persists.'
-            }`,
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    // Handle unexpected errors
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **Unexpected Error**\n\nAn unexpected error occurred while retrieving the note: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        },
-      ],
-      isError: true,
-    };
-  }
+  input: GetNoteInput,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<GetNoteOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
+
+  // Call Kura's get note API
+  const noteContent = await kuraClient.getNote(
+    accessToken,
+    input.note_id,
+    signal,
+    log?.child('kura')
+  );
+
+  // Format note content for display
+  const formattedText = formatNoteContent(noteContent);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formattedText,
+      },
+    ],
+    structuredContent: toGetNoteOutput(noteContent),
+    isError: false,
+  };
+}
+
+/**
+ * Build the structured result from Kura's note
+ */
+function toGetNoteOutput(note: KuraNoteContent): GetNoteOutput {
+  return {
+    id: note.id,
+    title: note.title,
+    contentType: note.contentType,
+    tags: note.metadata.tags ?? [],
+    createdAt: note.metadata.createdAt,
+    updatedAt: note.metadata.updatedAt,
+    source: note.metadata.source,
+    annotation: note.metadata.annotation,
+    content: note.content,
+  };
 }
 
 /**
@@ -0,0 +1,60 @@
+/**
+ * Tool registry
+ *
+ * Each tool lives in its own module and exports a definition built with
+ * defineTool. Register new tools by adding them to TOOLS.
+ */
+
+import { ToolDefinition, ToolDescriptor, describeTool } from './tool';
+import { searchNotesTool } from './search-notes';
+import { createNoteTool } from './create-note';
+import { getNoteTool } from './get-note';
+import { listRecentNotesTool } from './list-recent-notes';
+import { updateNoteTool } from './update-note';
+import { appendToNoteTool } from './append-to-note';
+import { deleteNoteTool } from './delete-note';
+import { summarizeNotesTool } from './summarize-notes';
+
+/**
+ * All available tools, in the order tools/list advertises them
+ */
+const TOOLS: ToolDefinition[] = [
+  searchNotesTool,
+  createNoteTool,
+  getNoteTool,
+  listRecentNotesTool,
+  updateNoteTool,
+  appendToNoteTool,
+  deleteNoteTool,
+  summarizeNotesTool,
+];
+
+const toolsByName = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+/**
+ * Look up a tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return toolsByName.get(name);
+}
+
+/**
+ * Names of all registered tools
+ */
+export function getToolNames(): string[] {
+  return TOOLS.map((tool) => tool.name);
+}
+
+/**
+ * Tool list for tools/list, with JSON Schemas generated from the zod schemas
+ *
+ * @param grantedScopes - If given, only tools whose scopes are all granted are listed
+ */
+export function listTools(grantedScopes?: string[]): ToolDescriptor[] {
+  return TOOLS.filter(
+    (tool) => !grantedScopes || tool.scopes.every((scope) => grantedScopes.includes(scope))
+  ).map(describeTool);
+}
+
+export { ToolArgumentsError, validateToolArguments } from './tool';
+export type { ToolContext, ToolDefinition } from './tool';
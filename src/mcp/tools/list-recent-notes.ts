@@ -1,5 +1,49 @@
-import { getKuraClient, KuraApiError } from '../../services/kura-client';
+import { z } from 'zod';
+import { getKuraClient, KuraRecentNotesResponse } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
 import { ToolResult } from '../../types/mcp';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+import { noteSummarySchema } from './note-output';
+
+/**
+ * Input schema for list_recent_notes (takes no arguments)
+ */
+export const listRecentNotesInputSchema = z.object({});
+
+/**
+ * Output schema for list_recent_notes
+ */
+export const listRecentNotesOutputSchema = z.object({
+  notes: z.array(noteSummarySchema).describe('Recent notes, most recent first'),
+  total: z.number().int().describe('Total number of notes'),
+});
+
+/**
+ * Structured result of list_recent_notes
+ */
+export type ListRecentNotesOutput = z.infer<typeof listRecentNotesOutputSchema>;
+
+/**
+ * list_recent_notes tool definition
+ */
+export const listRecentNotesTool = defineTool({
+  name: 'list_recent_notes',
+  title: 'List Recent Notes',
+  description:
+    'List the 20 most recently created or updated notes. Returns a summary view without full content. ' +
+    'Perfect for getting an overview of recent activity or finding recently added notes.',
+  inputSchema: listRecentNotesInputSchema,
+  outputSchema: listRecentNotesOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_READ],
+  execute: (_input, ctx) => executeListRecentNotes(ctx.accessToken, ctx.signal, ctx.log),
+});
 
 /**
  * Execute the list_recent_notes tool
@@ -7,73 +51,70 @@ import { ToolResult } from '../../types/mcp';
  * Calls Kura's /api/content/recent endpoint to get recent notes
  *
  * @param accessToken - OAuth access token to authenticate with Kura
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
  * @returns MCP tool result with list of recent notes
+ * @throws {KuraApiError} If the Kura API call fails
  */
-export async function executeListRecentNotes(accessToken: string): Promise<ToolResult> {
-  try {
-    // Get Kura API client
-    const kuraClient = getKuraClient();
-
-    // Call Kura's list recent notes API
-    const recentNotes = await kuraClient.listRecentNotes(accessToken);
-
-    // Format results for display
-    if (recentNotes.notes.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: formatNoNotes(),
-          },
-        ],
-        isError: false,
-      };
-    }
+export async function executeListRecentNotes(
+  accessToken: string,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<ListRecentNotesOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
 
-    const formattedText = formatRecentNotes(recentNotes);
+  // Call Kura's list recent notes API
+  const recentNotes = await kuraClient.listRecentNotes(
+    accessToken,
+    signal,
+    log?.child('kura')
+  );
+  const structuredContent = toListRecentNotesOutput(recentNotes);
 
+  // Format results for display
+  if (recentNotes.notes.length === 0) {
     return {
       content: [
         {
           type: 'text',
-          text: formattedText,
+          text: formatNoNotes(),
         },
       ],
+      structuredContent,
       isError: false,
     };
-  } catch (error) {
-    // Handle Kura API errors
-    if (error instanceof KuraApiError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Failed to List Recent Notes**\n\n${error.message}\n\n${
-              error.statusCode === 401
-                ? 'Your access token may have expired. Please re-authenticate.'
-                : error.statusCode === 404
-                ? 'Make sure Kura is running and accessible.'
-                : 'Please try again or contact support if the problem persists.'
-            }`,
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    // Handle unexpected errors
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **Unexpected Error**\n\nAn unexpected error occurred while listing recent notes: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        },
-      ],
-      isError: true,
-    };
   }
+
+  const formattedText = formatRecentNotes(recentNotes);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formattedText,
+      },
+    ],
+    structuredContent,
+    isError: false,
+  };
+}
+
+/**
+ * Build the structured result from Kura's recent notes
+ */
+function toListRecentNotesOutput(response: KuraRecentNotesResponse): ListRecentNotesOutput {
+  return {
+    notes: response.notes.map((note) => ({
+      id: note.id,
+      title: note.title,
+      contentType: note.contentType,
+      tags: note.tags ?? [],
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+    })),
+    total: response.total,
+  };
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * Output schemas shared by the note tools
+ *
+ * Tools return these as structuredContent next to their markdown text, so
+ * clients get note IDs, scores, tags and timestamps without parsing text.
+ */
+
+import { z } from 'zod';
+
+/**
+ * A note as listed by search and recent notes
+ */
+export const noteSummarySchema = z.object({
+  id: z.string().describe('Note ID, usable with get_note and kura://notes/{id}'),
+  title: z.string().describe('Note title'),
+  contentType: z.string().describe('Content type, e.g. text or markdown'),
+  tags: z.array(z.string()).describe('Tags of the note'),
+  createdAt: z.string().optional().describe('Creation time (ISO 8601)'),
+  updatedAt: z.string().optional().describe('Last update time (ISO 8601)'),
+});
+
+/**
+ * Note summary in structured tool output
+ */
+export type NoteSummary = z.infer<typeof noteSummarySchema>;
+
+/**
+ * Metadata Kura stores besides the note content
+ */
+export const noteDetailsSchema = z.object({
+  source: z.string().optional().describe('Where the note came from'),
+  annotation: z.string().optional().describe('Annotation attached to the note'),
+});
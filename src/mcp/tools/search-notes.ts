@@ -1,88 +1,426 @@
-import { getKuraClient, KuraApiError } from '../../services/kura-client';
-import { SearchNotesInput, ToolResult } from '../../types/mcp';
+import { z } from 'zod';
+import { getKuraClient, KuraSearchResponse, SearchParams } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
+import { ToolResult } from '../../types/mcp';
+import { ClientLogger } from '../logging';
+import { ProgressReporter } from '../progress';
+import { defineTool } from './tool';
+import { noteDetailsSchema, noteSummarySchema } from './note-output';
+import {
+  describeQuery,
+  hasLocalChecks,
+  hasOperators,
+  matchesQuery,
+  ParsedQuery,
+  parseSearchQuery,
+} from './search-query';
+import { candidateLimit, RANK_MODES, RankMode, rankResults, RankOutcome } from './search-ranking';
+
+/**
+ * How each ranking pipeline is described to the user
+ */
+const RANK_DESCRIPTIONS: Record<RankMode, string> = {
+  relevance: 'relevance',
+  recent: 'relevance and recency',
+  diverse: 'relevance, with near-duplicates moved down',
+  recent_diverse: 'relevance and recency, with near-duplicates moved down',
+};
+
+/**
+ * Progress steps of a search: Kura search, then filtering and ranking
+ */
+const SEARCH_STEPS = 2;
+
+/**
+ * ISO 8601 date ("2025-01-15") or date-time ("2025-01-15T10:30:00Z")
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Date filter bound, validated as ISO 8601
+ */
+const isoDateSchema = z
+  .string()
+  .refine(isIsoDate, 'Must be an ISO 8601 date (2025-01-15) or date-time (2025-01-15T10:30:00Z)');
+
+/**
+ * List filter value (tag or content type); Kura receives the list comma-separated
+ */
+const filterValueSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .refine((value) => !value.includes(','), 'Must not contain commas');
+
+/**
+ * Input schema for search_kura_notes
+ */
+export const searchNotesInputSchema = z
+  .object({
+    query: z
+      .string()
+      .min(1)
+      .max(1000)
+      .describe(
+        'Natural language search query. Describe what you\'re looking for in plain English. ' +
+          'Examples: "machine learning algorithms", "how to deploy Docker", "Python async programming". ' +
+          'May contain operators: tag:NAME, type:NAME, after:DATE, before:DATE (YYYY, YYYY-MM or ' +
+          'YYYY-MM-DD), "exact phrase", and -word, -"phrase", -tag:NAME or -type:NAME to leave notes out. ' +
+          'A query of filters only, e.g. "tag:work after:2025-01", returns the notes matching them.'
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .default(10)
+      .describe(
+        'Maximum number of results to return. Default is 10. Increase for more comprehensive results.'
+      ),
+    min_similarity: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.7)
+      .describe(
+        'Minimum similarity threshold (0-1). Higher values return only very similar notes. ' +
+          'Lower values cast a wider net. Default is 0.7 (70% similar).'
+      ),
+    rank: z
+      .enum(RANK_MODES)
+      .default('relevance')
+      .describe(
+        'How to order the results: "relevance" (default), "recent" to prefer recently updated notes, ' +
+          '"diverse" to move near-duplicate notes down so different notes show up, or "recent_diverse" for both.'
+      ),
+    content_type: z
+      .array(filterValueSchema)
+      .min(1)
+      .max(10)
+      .optional()
+      .describe('Only return notes of these content types, e.g. ["markdown", "code"].'),
+    tags: z
+      .array(filterValueSchema)
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('Only return notes with these tags, e.g. ["docker"].'),
+    date_from: isoDateSchema
+      .optional()
+      .describe('Only return notes from this date on (ISO 8601, e.g. "2025-01-01").'),
+    date_to: isoDateSchema
+      .optional()
+      .describe('Only return notes up to this date (ISO 8601, e.g. "2025-03-31").'),
+  })
+  .refine(
+    (input) =>
+      !input.date_from ||
+      !input.date_to ||
+      Date.parse(input.date_from) <= Date.parse(input.date_to),
+    { message: 'date_from must not be after date_to', path: ['date_from'] }
+  );
+
+/**
+ * Input parameters for search_kura_notes tool
+ */
+export type SearchNotesInput = z.infer<typeof searchNotesInputSchema>;
+
+/**
+ * Output schema for search_kura_notes
+ */
+export const searchNotesOutputSchema = z.object({
+  query: z.string().describe('The query Kura searched for'),
+  searchMethod: z
+    .enum(['vector', 'fts', 'combined'])
+    .describe('How Kura searched: vector similarity, full-text search or both'),
+  totalResults: z
+    .number()
+    .int()
+    .describe('Number of notes returned, after filtering by the query and min_similarity'),
+  kuraTotalResults: z
+    .number()
+    .int()
+    .describe('Number of notes Kura matched, before the limit, filtering and ranking'),
+  interpretedQuery: z
+    .object({
+      text: z.string().describe('Free text sent to Kura'),
+      tags: z.array(z.string()).describe('Tags from tag: operators'),
+      contentTypes: z.array(z.string()).describe('Content types from type: operators'),
+      dateFrom: z.string().optional().describe('First day from after: operators'),
+      dateTo: z.string().optional().describe('Last day from before: operators'),
+      phrases: z.array(z.string()).describe('Quoted phrases results must contain'),
+      excludedTerms: z.array(z.string()).describe('Words and phrases results must not contain'),
+      excludedTags: z.array(z.string()).describe('Tags results must not have'),
+      excludedContentTypes: z.array(z.string()).describe('Content types results must not have'),
+    })
+    .describe('How the query was split into free text, filters and local checks'),
+  appliedFilters: z
+    .object({
+      contentType: z.array(z.string()).optional(),
+      tags: z.array(z.string()).optional(),
+      dateFrom: z.string().optional(),
+      dateTo: z.string().optional(),
+    })
+    .describe('Filters Kura applied to narrow the results'),
+  ranking: z
+    .object({
+      rank: z.enum(RANK_MODES).describe('Ranking pipeline used'),
+      minSimilarity: z.number().describe('Minimum relevance score a result needed'),
+      belowThreshold: z
+        .number()
+        .int()
+        .describe('Number of results left out for being below minSimilarity'),
+      excludedByQuery: z
+        .number()
+        .int()
+        .describe('Number of results left out for missing a phrase or matching an exclusion'),
+    })
+    .describe('How the results were filtered and ordered'),
+  results: z
+    .array(
+      noteSummarySchema.merge(noteDetailsSchema).extend({
+        excerpt: z.string().describe('Matching excerpt of the note content'),
+        relevanceScore: z.number().describe('Relevance to the query, between 0 and 1'),
+        rankScore: z
+          .number()
+          .describe('Score the results were ordered by; equals relevanceScore unless boosted'),
+      })
+    )
+    .describe('Matching notes, in ranking order'),
+});
+
+/**
+ * Structured result of search_kura_notes
+ */
+export type SearchNotesOutput = z.infer<typeof searchNotesOutputSchema>;
+
+/**
+ * search_kura_notes tool definition
+ */
+export const searchNotesTool = defineTool({
+  name: 'search_kura_notes',
+  title: 'Search Notes',
+  description:
+    'Search Kura notes using semantic similarity. Finds notes that are conceptually related to the search query, ' +
+    "even if they don't contain the exact keywords. Perfect for finding relevant information across your notes. " +
+    'Narrow the search by content type, tags or a date range. ' +
+    'Quoted phrases and excluded words in the query are only checked against the title and excerpt ' +
+    'of each result, so a note with an excluded word elsewhere in its body is still returned.',
+  inputSchema: searchNotesInputSchema,
+  outputSchema: searchNotesOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_READ],
+  completions: { tags: 'tag' },
+  execute: (input, ctx) =>
+    executeSearchNotes(ctx.accessToken, input, ctx.signal, ctx.log, ctx.progress),
+});
 
 /**
  * Execute the search_kura_notes tool
  *
  * Calls Kura's search API to find notes using semantic similarity.
  * Much simpler than direct database access - Kura handles all the complexity.
+ * Operators in the query become Kura filters; phrases and exclusions are
+ * checked on the results (see search-query.ts). The results are then
+ * filtered by min_similarity and ranked as rank asks (see search-ranking.ts).
  *
  * @param accessToken - OAuth access token to authenticate with Kura
- * @param input - Search parameters (query, limit)
- * @returns MCP tool result with formatted search results
+ * @param input - Search parameters (query, limit, filters)
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
+ * @param progress - Optional reporter for the search and ranking steps
+ * @returns MCP tool result with formatted and structured search results
+ * @throws {KuraApiError} If the Kura API call fails
  */
 export async function executeSearchNotes(
   accessToken: string,
-  input: SearchNotesInput
-): Promise<ToolResult> {
-  try {
-    // Get Kura API client
-    const kuraClient = getKuraClient();
-
-    // Call Kura's search API
-    const searchResponse = await kuraClient.search(accessToken, {
-      query: input.query,
+  input: SearchNotesInput,
+  signal?: AbortSignal,
+  log?: ClientLogger,
+  progress?: ProgressReporter
+): Promise<ToolResult<SearchNotesOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
+
+  const parsedQuery = parseSearchQuery(input.query);
+  progress?.report(0, SEARCH_STEPS, 'Searching Kura');
+
+  // Call Kura's search API
+  const searchResponse = await kuraClient.search(
+    accessToken,
+    toSearchParams(input, parsedQuery),
+    signal,
+    log?.child('kura')
+  );
+
+  // Explain to the client how Kura searched (the query itself is debug-only)
+  log?.log(
+    'info',
+    `Kura used ${searchResponse.searchMethod} search and found ${searchResponse.totalResults} notes`,
+    {
+      searchMethod: searchResponse.searchMethod,
+      totalResults: searchResponse.totalResults,
+      returned: searchResponse.results.length,
       limit: input.limit,
-    });
+      appliedFilters: searchResponse.appliedFilters ?? {},
+    },
+    { query: input.query, interpretedQuery: parsedQuery }
+  );
 
-    // Format results for MCP
-    if (searchResponse.results.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: formatNoResults(input.query),
-          },
-        ],
-        isError: false,
-      };
-    }
+  progress?.report(1, SEARCH_STEPS, `Ranking ${searchResponse.results.length} results`);
+
+  const matching = searchResponse.results.filter((result) => matchesQuery(result, parsedQuery));
+  const ranking = rankResults(matching, {
+    mode: input.rank,
+    minSimilarity: input.min_similarity,
+    limit: input.limit,
+  });
+  const structuredContent = toSearchNotesOutput(
+    searchResponse,
+    ranking,
+    input,
+    parsedQuery,
+    searchResponse.results.length - matching.length
+  );
+  progress?.report(SEARCH_STEPS, SEARCH_STEPS, `Found ${ranking.results.length} notes`);
 
-    // Format results as text
-    const formattedText = formatSearchResults(searchResponse);
+  const rankedResponse = {
+    ...searchResponse,
+    totalResults: structuredContent.totalResults,
+    kuraTotalResults: structuredContent.kuraTotalResults,
+    results: ranking.results.map(({ result }) => result),
+    ranking: structuredContent.ranking,
+    interpretedQuery: hasOperators(parsedQuery) ? describeQuery(parsedQuery) : undefined,
+  };
 
+  // Format results for MCP
+  if (rankedResponse.results.length === 0) {
     return {
       content: [
         {
           type: 'text',
-          text: formattedText,
+          text: formatNoResults(
+            input.query,
+            structuredContent.appliedFilters,
+            structuredContent.ranking,
+            rankedResponse.interpretedQuery
+          ),
         },
       ],
+      structuredContent,
       isError: false,
     };
-  } catch (error) {
-    // Handle Kura API errors
-    if (error instanceof KuraApiError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Kura API Error**\n\n${error.message}\n\n${
-              error.statusCode === 401
-                ? 'Your access token may have expired. Please re-authenticate.'
-                : error.statusCode === 404
-                ? 'Make sure Kura is running and accessible.'
-                : 'Please try again or contact support if the problem persists.'
-            }`,
-          },
-        ],
-        isError: true,
-      };
-    }
+  }
 
-    // Handle unexpected errors
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **Unexpected Error**\n\nAn unexpected error occurred during search: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        },
-      ],
-      isError: true,
-    };
+  // Format results as text
+  const formattedText = formatSearchResults(rankedResponse);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formattedText,
+      },
+    ],
+    structuredContent,
+    isError: false,
+  };
+}
+
+/**
+ * Whether a value is an ISO 8601 date or date-time of a day that exists
+ *
+ * Date.parse alone accepts e.g. 2025-02-30, so the day is checked too.
+ */
+function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return false;
   }
+
+  const day = value.substring(0, 10);
+  return new Date(`${day}T00:00:00Z`).toISOString().startsWith(day);
+}
+
+/**
+ * Build Kura search parameters from the tool input and the parsed query
+ *
+ * Filters from parameters and from query operators are combined: tags and
+ * content types are merged (without duplicates), and of two date bounds
+ * the narrower one is used.
+ */
+function toSearchParams(input: SearchNotesInput, parsedQuery: ParsedQuery): SearchParams {
+  const contentType = [...new Set([...(input.content_type ?? []), ...parsedQuery.contentTypes])];
+  const tags = [...new Set([...(input.tags ?? []), ...parsedQuery.tags])];
+
+  return {
+    query: parsedQuery.text,
+    limit: candidateLimit(input.rank, input.limit, hasLocalChecks(parsedQuery)),
+    contentType: contentType.length > 0 ? contentType : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    dateFrom: pickDate(input.date_from, parsedQuery.dateFrom, 'later'),
+    dateTo: pickDate(input.date_to, parsedQuery.dateTo, 'earlier'),
+  };
+}
+
+/**
+ * Pick the later or earlier of two optional dates
+ */
+function pickDate(
+  a: string | undefined,
+  b: string | undefined,
+  pick: 'later' | 'earlier'
+): string | undefined {
+  if (a === undefined || b === undefined) {
+    return a ?? b;
+  }
+
+  const aIsLater = Date.parse(a) > Date.parse(b);
+  return aIsLater === (pick === 'later') ? a : b;
+}
+
+/**
+ * Build the structured result from Kura's search response and its ranking
+ */
+function toSearchNotesOutput(
+  searchResponse: KuraSearchResponse,
+  ranking: RankOutcome,
+  input: SearchNotesInput,
+  parsedQuery: ParsedQuery,
+  excludedByQuery: number
+): SearchNotesOutput {
+  return {
+    query: searchResponse.query,
+    searchMethod: searchResponse.searchMethod,
+    totalResults: ranking.results.length,
+    kuraTotalResults: searchResponse.totalResults,
+    interpretedQuery: parsedQuery,
+    appliedFilters: searchResponse.appliedFilters ?? {},
+    ranking: {
+      rank: input.rank,
+      minSimilarity: input.min_similarity,
+      belowThreshold: ranking.belowThreshold,
+      excludedByQuery,
+    },
+    results: ranking.results.map(({ result, score }) => ({
+      id: result.id,
+      title: result.title,
+      contentType: result.contentType,
+      tags: result.metadata.tags ?? [],
+      createdAt: result.metadata.createdAt,
+      updatedAt: result.metadata.updatedAt,
+      source: result.metadata.source,
+      annotation: result.metadata.annotation,
+      excerpt: result.excerpt,
+      relevanceScore: result.relevanceScore,
+      rankScore: score,
+    })),
+  };
 }
 
 /**
@@ -104,15 +442,51 @@ function formatSearchResults(searchResponse: {
     };
   }>;
   totalResults: number;
+  kuraTotalResults: number;
   query: string;
   searchMethod: string;
+  appliedFilters?: KuraSearchResponse['appliedFilters'];
+  ranking: SearchNotesOutput['ranking'];
+  interpretedQuery?: string;
   timestamp: string;
 }): string {
-  const { results, totalResults, query, searchMethod } = searchResponse;
+  const {
+    results,
+    totalResults,
+    kuraTotalResults,
+    query,
+    searchMethod,
+    appliedFilters,
+    ranking,
+    interpretedQuery,
+  } = searchResponse;
 
   let text = `# 🔍 Search Results\n\n`;
   text += `Found **${totalResults}** ${totalResults === 1 ? 'note' : 'notes'} `;
-  text += `for "${query}" (method: ${searchMethod})\n\n`;
+  // A filter-only query reaches Kura as empty text
+  text += query ? `for "${query}" (method: ${searchMethod})` : `(method: ${searchMethod})`;
+  if (kuraTotalResults > totalResults) {
+    text += `, out of ${kuraTotalResults} that Kura matched`;
+  }
+  text += `\n\n`;
+
+  if (interpretedQuery) {
+    text += `**Interpreted as:** ${interpretedQuery}\n\n`;
+  }
+
+  const filters = describeFilters(appliedFilters);
+  if (filters) {
+    text += `**Filtered by:** ${filters}\n\n`;
+  }
+
+  if (ranking.rank !== 'relevance') {
+    text += `**Ranked by:** ${RANK_DESCRIPTIONS[ranking.rank]}\n\n`;
+  }
+
+  if (ranking.belowThreshold > 0 || ranking.excludedByQuery > 0) {
+    text += `*${describeLeftOut(ranking)}*\n\n`;
+  }
+
   text += `---\n\n`;
 
   results.forEach((result, index) => {
@@ -145,11 +519,26 @@ function formatSearchResults(searchResponse: {
 /**
  * Format message when no results are found
  */
-function formatNoResults(query: string): string {
+function formatNoResults(
+  query: string,
+  appliedFilters: SearchNotesOutput['appliedFilters'],
+  ranking: SearchNotesOutput['ranking'],
+  interpretedQuery?: string
+): string {
+  const filters = describeFilters(appliedFilters);
+  const leftOut = ranking.belowThreshold > 0 || ranking.excludedByQuery > 0;
+
   return (
     `# 🔍 No Results Found\n\n` +
-    `No notes found matching **"${query}"**.\n\n` +
+    `No notes found matching **"${query}"**` +
+    (filters ? ` (filtered by: ${filters})` : '') +
+    `.\n\n` +
+    (interpretedQuery ? `**Interpreted as:** ${interpretedQuery}\n\n` : '') +
+    (leftOut ? `${describeLeftOut(ranking)}\n\n` : '') +
     `**Suggestions:**\n` +
+    (ranking.belowThreshold > 0 ? `- Lower min_similarity\n` : '') +
+    (ranking.excludedByQuery > 0 ? `- Drop quoted phrases or -exclusions from the query\n` : '') +
+    (filters ? `- Remove or widen the filters\n` : '') +
     `- Try different keywords or phrases\n` +
     `- Use more general terms\n` +
     `- Check if notes exist in your Kura account\n` +
@@ -157,6 +546,60 @@ function formatNoResults(query: string): string {
   );
 }
 
+/**
+ * Describe the applied filters in one line, or return an empty string if there are none
+ */
+function describeFilters(appliedFilters: KuraSearchResponse['appliedFilters']): string {
+  if (!appliedFilters) {
+    return '';
+  }
+
+  const parts: string[] = [];
+
+  if (appliedFilters.contentType && appliedFilters.contentType.length > 0) {
+    parts.push(`type ${appliedFilters.contentType.join(' or ')}`);
+  }
+
+  if (appliedFilters.tags && appliedFilters.tags.length > 0) {
+    parts.push(`tags ${appliedFilters.tags.map((tag) => `#${tag}`).join(', ')}`);
+  }
+
+  if (appliedFilters.dateFrom) {
+    parts.push(`from ${appliedFilters.dateFrom}`);
+  }
+
+  if (appliedFilters.dateTo) {
+    parts.push(`until ${appliedFilters.dateTo}`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Say how many results were left out by the query's phrases and exclusions
+ * and by min_similarity
+ */
+function describeLeftOut(ranking: SearchNotesOutput['ranking']): string {
+  const parts: string[] = [];
+
+  if (ranking.excludedByQuery > 0) {
+    const count = ranking.excludedByQuery;
+    parts.push(
+      `${count} ${count === 1 ? 'result' : 'results'} not matching the phrases or exclusions`
+    );
+  }
+
+  if (ranking.belowThreshold > 0) {
+    const count = ranking.belowThreshold;
+    parts.push(
+      `${count} ${count === 1 ? 'result' : 'results'} below ` +
+        `${(ranking.minSimilarity * 100).toFixed(0)}% relevance`
+    );
+  }
+
+  return `Left out ${parts.join(' and ')}.`;
+}
+
 /**
  * Format date for display
  */
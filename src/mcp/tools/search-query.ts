@@ -0,0 +1,305 @@
+/**
+ * Search query mini-language
+ *
+ * search_kura_notes queries may contain operators besides free text, e.g.
+ * `docker deploy tag:infra after:2024-06 -kubernetes`:
+ * - `tag:NAME`, `type:NAME` - only notes with this tag or content type
+ * - `after:DATE`, `before:DATE` - only notes from DATE on, or from before
+ *   DATE; DATE is YYYY, YYYY-MM or YYYY-MM-DD
+ * - `"exact phrase"` - only notes containing the phrase
+ * - `-word`, `-"phrase"`, `-tag:NAME`, `-type:NAME` - leave notes out
+ *
+ * Tags, types and dates become Kura search filters. Kura cannot express
+ * phrases and exclusions, so they are checked on the returned results.
+ * A query of filters only (`tag:work after:2025-01-01`) is sent to Kura
+ * with an empty query.
+ */
+
+import { KuraSearchResult } from '../../services/kura-client';
+import { DomainError, ErrorCode } from '../errors';
+
+/**
+ * One term of the query: optional "-", optional operator, then a quoted or bare value
+ */
+const TERM_PATTERN = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+/**
+ * Operators the parser understands; any other "word:" stays free text
+ */
+const OPERATORS = ['tag', 'type', 'after', 'before'] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+/**
+ * YYYY, YYYY-MM or YYYY-MM-DD
+ */
+const DATE_VALUE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/**
+ * A search query split into free text, filters and local checks
+ */
+export interface ParsedQuery {
+  /** Free text and phrases, sent to Kura as the query; empty for a filter-only query */
+  text: string;
+  tags: string[];
+  contentTypes: string[];
+  /** First day notes may be from (YYYY-MM-DD) */
+  dateFrom?: string;
+  /** Last day notes may be from (YYYY-MM-DD) */
+  dateTo?: string;
+  /** Phrases results must contain */
+  phrases: string[];
+  /** Words and phrases results must not contain */
+  excludedTerms: string[];
+  excludedTags: string[];
+  excludedContentTypes: string[];
+}
+
+/**
+ * Parse a search query
+ *
+ * @throws {DomainError} VALIDATION_FAILED if an operator has an invalid
+ *   value, or the query has neither text nor a tag, type or date filter
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    text: '',
+    tags: [],
+    contentTypes: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedTags: [],
+    excludedContentTypes: [],
+  };
+  const words: string[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [raw, minus, name, quoted, bare] = match;
+    const negated = minus === '-';
+    const operator = name?.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+
+    if (operator && isOperator(operator)) {
+      applyOperator(parsed, operator, value, negated, raw);
+      continue;
+    }
+
+    // Not an operator: the "word:" prefix is part of the text
+    const term = name ? `${name}:${value}` : value;
+    if (term === '') {
+      continue;
+    }
+
+    if (negated) {
+      parsed.excludedTerms.push(term);
+    } else {
+      if (quoted !== undefined && !name) {
+        parsed.phrases.push(term);
+      }
+      words.push(term);
+    }
+  }
+
+  parsed.text = words.join(' ');
+  if (parsed.text === '' && !hasKuraFilters(parsed)) {
+    throw new DomainError(
+      ErrorCode.VALIDATION_FAILED,
+      `Query "${query}" has nothing to search for. Add some search text, or a tag:, type:, ` +
+        'after: or before: filter.',
+      { field: 'query' }
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a query uses any operator, phrase or exclusion
+ */
+export function hasOperators(parsed: ParsedQuery): boolean {
+  return hasKuraFilters(parsed) || hasLocalChecks(parsed);
+}
+
+/**
+ * Whether a query has operators Kura applies (tags, types and dates)
+ */
+function hasKuraFilters(parsed: ParsedQuery): boolean {
+  return (
+    parsed.tags.length > 0 ||
+    parsed.contentTypes.length > 0 ||
+    parsed.dateFrom !== undefined ||
+    parsed.dateTo !== undefined
+  );
+}
+
+/**
+ * Whether results have to be checked locally (phrases and exclusions)
+ */
+export function hasLocalChecks(parsed: ParsedQuery): boolean {
+  return (
+    parsed.phrases.length > 0 ||
+    parsed.excludedTerms.length > 0 ||
+    parsed.excludedTags.length > 0 ||
+    parsed.excludedContentTypes.length > 0
+  );
+}
+
+/**
+ * Check a result against the query's phrases and exclusions
+ *
+ * Kura only returns an excerpt, so phrases and excluded terms are looked
+ * for in the title and excerpt. Case and spacing are ignored; excluded
+ * single words only match whole words.
+ */
+export function matchesQuery(result: KuraSearchResult, parsed: ParsedQuery): boolean {
+  const text = normalize(`${result.title} ${result.excerpt}`);
+  const tags = (result.metadata.tags ?? []).map((tag) => tag.toLowerCase());
+
+  return (
+    parsed.phrases.every((phrase) => text.includes(normalize(phrase))) &&
+    !parsed.excludedTerms.some((term) => containsTerm(text, normalize(term))) &&
+    !parsed.excludedTags.some((tag) => tags.includes(tag.toLowerCase())) &&
+    !parsed.excludedContentTypes.some(
+      (type) => type.toLowerCase() === result.contentType.toLowerCase()
+    )
+  );
+}
+
+/**
+ * Describe how a query was interpreted, in one line
+ */
+export function describeQuery(parsed: ParsedQuery): string {
+  const parts = parsed.text === '' ? ['any text'] : [`"${parsed.text}"`];
+
+  parsed.tags.forEach((tag) => parts.push(`tag #${tag}`));
+  parsed.contentTypes.forEach((type) => parts.push(`type ${type}`));
+  if (parsed.dateFrom) {
+    parts.push(`from ${parsed.dateFrom}`);
+  }
+  if (parsed.dateTo) {
+    parts.push(`until ${parsed.dateTo}`);
+  }
+  parsed.phrases.forEach((phrase) => parts.push(`containing "${phrase}"`));
+  parsed.excludedTerms.forEach((term) => parts.push(`without "${term}"`));
+  parsed.excludedTags.forEach((tag) => parts.push(`without tag #${tag}`));
+  parsed.excludedContentTypes.forEach((type) => parts.push(`not type ${type}`));
+
+  return parts.join(' · ');
+}
+
+function isOperator(name: string): name is Operator {
+  return (OPERATORS as readonly string[]).includes(name);
+}
+
+/**
+ * Apply one operator term to the parsed query
+ *
+ * @throws {DomainError} VALIDATION_FAILED if the value is invalid
+ */
+function applyOperator(
+  parsed: ParsedQuery,
+  operator: Operator,
+  value: string,
+  negated: boolean,
+  raw: string
+): void {
+  if (value === '' || value.includes(',')) {
+    throw invalidTerm(raw, 'needs a value without commas');
+  }
+
+  switch (operator) {
+    case 'tag':
+      addUnique(negated ? parsed.excludedTags : parsed.tags, value);
+      break;
+
+    case 'type':
+      addUnique(negated ? parsed.excludedContentTypes : parsed.contentTypes, value);
+      break;
+
+    case 'after':
+    case 'before': {
+      if (negated) {
+        throw invalidTerm(
+          raw,
+          `cannot be negated; use ${operator === 'after' ? 'before' : 'after'}: instead`
+        );
+      }
+      const first = firstDayOf(value);
+      if (!first) {
+        throw invalidTerm(raw, 'needs a date as YYYY, YYYY-MM or YYYY-MM-DD');
+      }
+      // Several bounds of one kind narrow the range
+      if (operator === 'after') {
+        parsed.dateFrom = laterDate(parsed.dateFrom, first);
+      } else {
+        parsed.dateTo = earlierDate(parsed.dateTo, addDays(first, -1));
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * First day of a YYYY, YYYY-MM or YYYY-MM-DD period, or undefined if the
+ * value is not a date that exists
+ */
+function firstDayOf(value: string): string | undefined {
+  const match = DATE_VALUE_PATTERN.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = '01', day = '01'] = match;
+  const first = `${year}-${month}-${day}`;
+  const date = new Date(`${first}T00:00:00Z`);
+
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(first) ? first : undefined;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+function laterDate(a: string | undefined, b: string): string {
+  return a !== undefined && a > b ? a : b;
+}
+
+function earlierDate(a: string | undefined, b: string): string {
+  return a !== undefined && a < b ? a : b;
+}
+
+function addUnique(values: string[], value: string): void {
+  if (!values.includes(value)) {
+    values.push(value);
+  }
+}
+
+function invalidTerm(raw: string, problem: string): DomainError {
+  return new DomainError(ErrorCode.VALIDATION_FAILED, `Query term "${raw}" ${problem}.`, {
+    field: 'query',
+  });
+}
+
+/**
+ * Lower case with single spaces
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether normalized text contains a term; single words must match whole words
+ */
+function containsTerm(text: string, term: string): boolean {
+  if (/\s/.test(term)) {
+    return text.includes(term);
+  }
+
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
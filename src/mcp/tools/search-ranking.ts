@@ -0,0 +1,198 @@
+/**
+ * Post-processing of Kura search results
+ *
+ * Kura returns results ordered by relevance alone. Before search_kura_notes
+ * returns them, they go through a small pipeline:
+ * 1. Results below the minimum similarity are dropped
+ * 2. Optionally, recently updated notes are boosted
+ * 3. Optionally, Maximal Marginal Relevance (MMR) reorders the results so
+ *    near-identical notes do not crowd out the others
+ * 4. The list is cut to the requested limit
+ */
+
+import { KuraSearchResult } from '../../services/kura-client';
+
+/**
+ * Ranking pipelines a search can use
+ *
+ * - relevance: Kura's order
+ * - recent: relevance with a boost for recently updated notes
+ * - diverse: relevance with near-duplicates moved down (MMR)
+ * - recent_diverse: both
+ */
+export const RANK_MODES = ['relevance', 'recent', 'diverse', 'recent_diverse'] as const;
+
+/**
+ * Ranking pipeline name
+ */
+export type RankMode = (typeof RANK_MODES)[number];
+
+/**
+ * Share of the score that comes from recency when boosting
+ */
+const RECENCY_WEIGHT = 0.3;
+
+/**
+ * Age in days at which a note gets half the recency boost
+ */
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/**
+ * MMR trade-off: 1 ranks by score only, 0 by difference only
+ */
+const MMR_LAMBDA = 0.7;
+
+/**
+ * How many results to ask Kura for per result returned, so re-ranking has
+ * candidates to choose from
+ */
+const CANDIDATE_FACTOR = 3;
+
+/**
+ * Largest number of results Kura is asked for
+ */
+const MAX_CANDIDATES = 50;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Ranking options
+ */
+export interface RankOptions {
+  mode: RankMode;
+  /** Results with a lower relevanceScore are dropped */
+  minSimilarity: number;
+  limit: number;
+  /** Time recency is measured against; defaults to now */
+  now?: Date;
+}
+
+/**
+ * A search result with the score it was ranked by
+ */
+export interface RankedResult {
+  result: KuraSearchResult;
+  /** relevanceScore, or relevance blended with recency when boosting */
+  score: number;
+}
+
+/**
+ * Ranked results and what the pipeline left out
+ */
+export interface RankOutcome {
+  results: RankedResult[];
+  /** Number of results dropped for being below minSimilarity */
+  belowThreshold: number;
+}
+
+/**
+ * Number of results to ask Kura for
+ *
+ * Re-ranking pipelines, and results that are filtered after the search,
+ * need more candidates than they return.
+ *
+ * @param filteredLocally - Whether results are dropped before ranking
+ */
+export function candidateLimit(mode: RankMode, limit: number, filteredLocally = false): number {
+  return mode === 'relevance' && !filteredLocally
+    ? limit
+    : Math.min(MAX_CANDIDATES, limit * CANDIDATE_FACTOR);
+}
+
+/**
+ * Run the ranking pipeline over Kura's results
+ */
+export function rankResults(results: KuraSearchResult[], options: RankOptions): RankOutcome {
+  const boost = options.mode === 'recent' || options.mode === 'recent_diverse';
+  const diversify = options.mode === 'diverse' || options.mode === 'recent_diverse';
+  const now = (options.now ?? new Date()).getTime();
+
+  const relevant = results.filter((result) => result.relevanceScore >= options.minSimilarity);
+
+  let ranked: RankedResult[] = relevant.map((result) => ({
+    result,
+    score: boost ? boostByRecency(result, now) : result.relevanceScore,
+  }));
+  ranked.sort((a, b) => b.score - a.score);
+
+  if (diversify) {
+    ranked = selectByMmr(ranked, options.limit);
+  }
+
+  return {
+    results: ranked.slice(0, options.limit),
+    belowThreshold: results.length - relevant.length,
+  };
+}
+
+/**
+ * Blend relevance with how recently the note was updated
+ *
+ * Recency halves every RECENCY_HALF_LIFE_DAYS. Notes without a usable
+ * timestamp get no boost.
+ */
+function boostByRecency(result: KuraSearchResult, now: number): number {
+  const timestamp = Date.parse(result.metadata.updatedAt ?? result.metadata.createdAt ?? '');
+  const ageDays = Number.isNaN(timestamp) ? Infinity : Math.max(0, now - timestamp) / MS_PER_DAY;
+  const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+  return (1 - RECENCY_WEIGHT) * result.relevanceScore + RECENCY_WEIGHT * recency;
+}
+
+/**
+ * Pick results by Maximal Marginal Relevance
+ *
+ * Each step takes the result with the best trade-off between its score and
+ * its similarity to the results already picked. Similarity is the word
+ * overlap (Jaccard) of title and excerpt, as Kura does not return embeddings.
+ */
+function selectByMmr(ranked: RankedResult[], limit: number): RankedResult[] {
+  const remaining = ranked.map((entry) => ({ entry, words: wordSet(entry.result) }));
+  const selected: typeof remaining = [];
+
+  while (remaining.length > 0 && selected.length < limit) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((picked) => jaccard(candidate.words, picked.words))
+      );
+      const value = MMR_LAMBDA * candidate.entry.score - (1 - MMR_LAMBDA) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(...remaining.splice(bestIndex, 1));
+  }
+
+  return selected.map(({ entry }) => entry);
+}
+
+/**
+ * Lower-case words of a result's title and excerpt
+ */
+function wordSet(result: KuraSearchResult): Set<string> {
+  return new Set(`${result.title} ${result.excerpt}`.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/**
+ * Share of words two sets have in common, between 0 and 1
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) {
+      shared++;
+    }
+  });
+
+  return shared / (a.size + b.size - shared);
+}
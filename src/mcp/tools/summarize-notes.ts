@@ -0,0 +1,402 @@
+import { z } from 'zod';
+import { getKuraClient, KuraSearchResult, NoteNotFoundError } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
+import { ToolResult } from '../../types/mcp';
+import { ClientRequestError } from '../session';
+import { defineTool, ToolContext } from './tool';
+
+/**
+ * Rough number of characters per token, used to apply the token budget
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Citation format the model is asked to use, e.g. [note:abc123]
+ */
+const CITATION_PATTERN = /\[note:([^\]\s]+)\]/g;
+
+/**
+ * Opening or closing <note> tag inside note content
+ */
+const NOTE_TAG_PATTERN = /<(\/?note\b)/gi;
+
+/**
+ * Instructions for the client's model
+ */
+const SUMMARY_SYSTEM_PROMPT =
+  "You summarize the user's personal notes. Only use information from the notes you are given. " +
+  'Cite every statement with the ID of the note it comes from in square brackets, e.g. [note:abc123]. ' +
+  'If the notes disagree, say so. Do not invent note IDs.';
+
+/**
+ * Input schema for summarize_notes
+ */
+export const summarizeNotesInputSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .max(1000)
+    .describe(
+      'Topic to summarize, in plain language. Example: "everything about the Docker deployment"'
+    ),
+  max_notes: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(8)
+    .describe('Maximum number of matching notes to read. Default is 8.'),
+  token_budget: z
+    .number()
+    .int()
+    .min(500)
+    .max(50000)
+    .default(8000)
+    .describe(
+      'Approximate number of tokens of note content to read. Longer notes are shortened so the ' +
+        'notes fit together. Default is 8000.'
+    ),
+  max_summary_tokens: z
+    .number()
+    .int()
+    .min(100)
+    .max(4000)
+    .default(800)
+    .describe('Maximum length of the summary in tokens. Default is 800.'),
+});
+
+/**
+ * Input parameters for summarize_notes tool
+ */
+export type SummarizeNotesInput = z.infer<typeof summarizeNotesInputSchema>;
+
+/**
+ * Output schema for summarize_notes
+ */
+export const summarizeNotesOutputSchema = z.object({
+  query: z.string().describe('The topic that was summarized'),
+  summarized: z
+    .boolean()
+    .describe('Whether the client model wrote a summary; if false, excerpts are returned instead'),
+  summary: z.string().optional().describe('Summary citing notes as [note:ID]'),
+  model: z.string().optional().describe('Model that wrote the summary, as reported by the client'),
+  citedNoteIds: z.array(z.string()).describe('IDs of the source notes the summary cites'),
+  fallbackReason: z.string().optional().describe('Why no summary was written'),
+  sources: z
+    .array(
+      z.object({
+        id: z.string().describe('Note ID'),
+        title: z.string().describe('Note title'),
+        relevanceScore: z.number().describe('Relevance to the query, between 0 and 1'),
+        truncated: z
+          .boolean()
+          .describe('Whether the content was shortened to fit the token budget'),
+        excerpt: z
+          .string()
+          .optional()
+          .describe('Content read from the note; only returned when no summary was written'),
+      })
+    )
+    .describe('Notes that were read, most relevant first'),
+});
+
+/**
+ * Structured result of summarize_notes
+ */
+export type SummarizeNotesOutput = z.infer<typeof summarizeNotesOutputSchema>;
+
+/**
+ * A note read for the summary, shortened to its share of the budget
+ */
+export interface SourceNote {
+  id: string;
+  title: string;
+  relevanceScore: number;
+  content: string;
+  truncated: boolean;
+}
+
+/**
+ * summarize_notes tool definition
+ */
+export const summarizeNotesTool = defineTool({
+  name: 'summarize_notes',
+  title: 'Summarize Notes',
+  description:
+    'Summarize what the user has written about a topic. Searches Kura, reads the full content of the ' +
+    'best matching notes and asks your model (via sampling) for a summary that cites note IDs as [note:ID]. ' +
+    'If the client does not support sampling, the note excerpts are returned so you can summarize them yourself.',
+  inputSchema: summarizeNotesInputSchema,
+  outputSchema: summarizeNotesOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_READ],
+  execute: (input, ctx) => executeSummarizeNotes(input, ctx),
+});
+
+/**
+ * Execute the summarize_notes tool
+ *
+ * Searches Kura, fetches the matching notes one by one (reporting
+ * progress), fits their content into the token budget and asks the client
+ * to summarize it with sampling/createMessage. Without sampling, or if the
+ * client declines, the gathered excerpts are returned instead.
+ *
+ * @param input - Topic and budgets
+ * @param ctx - Tool context (token, progress, sampling, logging)
+ * @returns MCP tool result with the summary or the excerpts
+ * @throws {KuraApiError} If the Kura API call fails
+ */
+export async function executeSummarizeNotes(
+  input: SummarizeNotesInput,
+  ctx: ToolContext
+): Promise<ToolResult<SummarizeNotesOutput>> {
+  const { accessToken, signal, log, progress, sampling } = ctx;
+
+  // Get Kura API client
+  const kuraClient = getKuraClient();
+
+  const searchResponse = await kuraClient.search(
+    accessToken,
+    { query: input.query, limit: input.max_notes },
+    signal,
+    log.child('kura')
+  );
+  const matches = searchResponse.results.slice(0, input.max_notes);
+
+  // One step per note, plus one for the summary
+  const totalSteps = matches.length + (sampling.isSupported ? 1 : 0);
+  const fetched = await fetchNotes(ctx, matches, totalSteps);
+
+  if (fetched.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# 📝 Nothing to Summarize\n\nNo notes found about **"${input.query}"**.`,
+        },
+      ],
+      structuredContent: {
+        query: input.query,
+        summarized: false,
+        citedNoteIds: [],
+        fallbackReason: 'No matching notes',
+        sources: [],
+      },
+      isError: false,
+    };
+  }
+
+  const sources = fitToBudget(fetched, input.token_budget * CHARS_PER_TOKEN);
+
+  let fallbackReason = 'The client does not support sampling';
+  if (sampling.isSupported) {
+    try {
+      const result = await sampling.createMessage({
+        systemPrompt: SUMMARY_SYSTEM_PROMPT,
+        prompt: buildSummaryPrompt(input.query, sources),
+        maxTokens: input.max_summary_tokens,
+        temperature: 0.2,
+      });
+      progress.report(totalSteps, totalSteps, 'Summary ready');
+
+      const citedNoteIds = findCitations(result.text, sources);
+      log.log('info', `Summarized ${sources.length} notes`, {
+        notes: sources.length,
+        cited: citedNoteIds.length,
+        model: result.model,
+        stopReason: result.stopReason,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatSummary(input.query, result.text, sources),
+          },
+        ],
+        structuredContent: {
+          query: input.query,
+          summarized: true,
+          summary: result.text,
+          model: result.model,
+          citedNoteIds,
+          sources: sources.map(({ content: _content, ...source }) => source),
+        },
+        isError: false,
+      };
+    } catch (error) {
+      if (!(error instanceof ClientRequestError)) {
+        throw error;
+      }
+
+      fallbackReason = `Sampling failed: ${error.message}`;
+      log.log('warning', 'Sampling failed, returning excerpts instead', { error: error.message });
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatExcerpts(input.query, sources, fallbackReason),
+      },
+    ],
+    structuredContent: {
+      query: input.query,
+      summarized: false,
+      citedNoteIds: [],
+      fallbackReason,
+      sources: sources.map(({ content, ...source }) => ({ ...source, excerpt: content })),
+    },
+    isError: false,
+  };
+}
+
+/**
+ * Fetch the full content of the matching notes, in relevance order
+ *
+ * Notes deleted since the search are skipped.
+ */
+async function fetchNotes(
+  ctx: ToolContext,
+  matches: KuraSearchResult[],
+  totalSteps: number
+): Promise<SourceNote[]> {
+  const kuraClient = getKuraClient();
+  const notes: SourceNote[] = [];
+
+  for (const [index, match] of matches.entries()) {
+    try {
+      const note = await kuraClient.getNote(
+        ctx.accessToken,
+        match.id,
+        ctx.signal,
+        ctx.log.child('kura')
+      );
+      notes.push({
+        id: note.id,
+        title: note.title,
+        relevanceScore: match.relevanceScore,
+        content: note.content,
+        truncated: false,
+      });
+    } catch (error) {
+      if (!(error instanceof NoteNotFoundError)) {
+        throw error;
+      }
+    }
+
+    ctx.progress.report(index + 1, totalSteps, `Read ${index + 1} of ${matches.length} notes`);
+  }
+
+  return notes;
+}
+
+/**
+ * Shorten note contents so they fit the budget together
+ *
+ * Every note gets an equal share; what short notes leave unused is shared
+ * among the longer ones.
+ *
+ * @param budget - Total number of characters
+ */
+export function fitToBudget(notes: SourceNote[], budget: number): SourceNote[] {
+  const byLength = [...notes].sort((a, b) => a.content.length - b.content.length);
+  const allowed = new Map<string, number>();
+
+  let remaining = budget;
+  byLength.forEach((note, index) => {
+    const share = Math.floor(remaining / (byLength.length - index));
+    const length = Math.min(note.content.length, share);
+    allowed.set(note.id, length);
+    remaining -= length;
+  });
+
+  return notes.map((note) => {
+    const length = allowed.get(note.id) ?? 0;
+    if (length >= note.content.length) {
+      return note;
+    }
+    return { ...note, content: `${note.content.substring(0, length).trimEnd()}…`, truncated: true };
+  });
+}
+
+/**
+ * Build the message asking the model for the summary
+ *
+ * Each note is wrapped in a <note> element. Its attributes are escaped, and
+ * <note> tags in its content are defused, so a note cannot end its own
+ * element or pose as another note.
+ */
+export function buildSummaryPrompt(query: string, sources: SourceNote[]): string {
+  let text = `Summarize what these notes say about: ${query}\n\n`;
+
+  sources.forEach((source) => {
+    text += `<note id="${escapeAttribute(source.id)}" title="${escapeAttribute(source.title)}">\n`;
+    text += `${source.content.replace(NOTE_TAG_PATTERN, '&lt;$1')}\n</note>\n\n`;
+  });
+
+  return text.trim();
+}
+
+/**
+ * Escape a value for a double-quoted XML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * IDs of source notes cited in the summary, in order of first citation
+ */
+function findCitations(summary: string, sources: SourceNote[]): string[] {
+  const sourceIds = new Set(sources.map((source) => source.id));
+  const cited = [...summary.matchAll(CITATION_PATTERN)]
+    .map((match) => match[1]!)
+    .filter((id) => sourceIds.has(id));
+
+  return [...new Set(cited)];
+}
+
+/**
+ * Format the summary with its list of sources
+ */
+function formatSummary(query: string, summary: string, sources: SourceNote[]): string {
+  let text = `# 📝 Summary: ${query}\n\n`;
+  text += `${summary.trim()}\n\n`;
+  text += `---\n\n`;
+  text += `**Sources:**\n`;
+
+  sources.forEach((source) => {
+    text += `- [note:${source.id}] ${source.title}${source.truncated ? ' (shortened)' : ''}\n`;
+  });
+
+  return text.trim();
+}
+
+/**
+ * Format the gathered excerpts when no summary could be written
+ */
+function formatExcerpts(query: string, sources: SourceNote[], reason: string): string {
+  let text = `# 📝 Notes About: ${query}\n\n`;
+  text += `${reason}, so here are the excerpts of the ${sources.length} best matching `;
+  text += `${sources.length === 1 ? 'note' : 'notes'}. Summarize them and cite notes as [note:ID].\n\n`;
+  text += `---\n\n`;
+
+  sources.forEach((source) => {
+    text += `## [note:${source.id}] ${source.title}\n\n`;
+    text += `${source.content}\n\n`;
+    text += `---\n\n`;
+  });
+
+  return text.trim();
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RequiredScope } from '../../types/auth';
+import { ToolAnnotations, ToolResult } from '../../types/mcp';
+import { ToolConfirmation } from '../confirmation';
+import { DomainError, ErrorCode } from '../errors';
+import { ClientLogger } from '../logging';
+import { ProgressReporter } from '../progress';
+import { ClientSampler } from '../sampling';
+
+/**
+ * zodToJsonSchema with a plain signature
+ *
+ * Its own generic signature makes the compiler run out of memory on zod
+ * object types.
+ */
+const toJsonSchema = zodToJsonSchema as unknown as (
+  schema: z.ZodTypeAny,
+  options: { $refStrategy: 'none' }
+) => Record<string, unknown>;
+
+/**
+ * What a tool executor gets besides its arguments
+ */
+export interface ToolContext {
+  /** OAuth access token to authenticate with Kura */
+  accessToken: string;
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Sends log messages to the client (notifications/message) */
+  log: ClientLogger;
+  /** Sends notifications/progress if the client sent a progress token */
+  progress: ProgressReporter;
+  /** Asks the user to confirm a destructive action */
+  confirmation: ToolConfirmation;
+  /** Asks the client's model to generate text (sampling/createMessage) */
+  sampling: ClientSampler;
+}
+
+/**
+ * Kind of value completion/complete suggests for a tool argument
+ */
+export type ArgumentCompletion = 'note_id' | 'tag';
+
+/**
+ * Declarative tool definition
+ *
+ * The zod input schema is the single source of truth: the JSON Schema
+ * advertised by tools/list is generated from it, and tools/call validates
+ * arguments against it before the executor runs. The output schema
+ * describes the structuredContent of successful results. Every tool must
+ * declare its annotations, so clients know which calls are safe to approve
+ * automatically.
+ */
+export interface ToolDefinition<
+  Schema extends z.ZodTypeAny = z.ZodTypeAny,
+  Output extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  /** Human-friendly name shown by clients */
+  title: string;
+  description: string;
+  inputSchema: Schema;
+  outputSchema: Output;
+  /** Behaviour hints; the title is added when advertised */
+  annotations: Omit<ToolAnnotations, 'title'>;
+  /** Scopes a token needs to call the tool, in addition to mcp:tools:execute */
+  scopes: RequiredScope[];
+  /** Arguments completion/complete can suggest values for */
+  completions?: Record<string, ArgumentCompletion>;
+  /**
+   * Run the tool. Domain errors and Kura API errors thrown here are
+   * reported to the client as isError results carrying the error code.
+   */
+  execute(input: z.output<Schema>, ctx: ToolContext): Promise<ToolResult<z.output<Output>>>;
+}
+
+/**
+ * Tool as advertised by tools/list
+ */
+export interface ToolDescriptor {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema: Record<string, unknown>;
+  annotations: ToolAnnotations;
+}
+
+/**
+ * Field-level validation failure
+ */
+export interface ArgumentError {
+  /** Dotted path of the argument, e.g. "tags.0" */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error thrown when tool arguments do not match the input schema
+ */
+export class ToolArgumentsError extends DomainError {
+  constructor(
+    public toolName: string,
+    public errors: ArgumentError[]
+  ) {
+    super(
+      ErrorCode.VALIDATION_FAILED,
+      `Invalid arguments for tool ${toolName}: ${errors
+        .map((e) => `${e.field}: ${e.message}`)
+        .join('; ')}`,
+      { tool: toolName, errors }
+    );
+    this.name = 'ToolArgumentsError';
+  }
+}
+
+/**
+ * Define a tool, inferring the executor's input type from the schema
+ */
+export function defineTool<Schema extends z.ZodTypeAny, Output extends z.ZodTypeAny>(
+  definition: ToolDefinition<Schema, Output>
+): ToolDefinition<Schema, Output> {
+  return definition;
+}
+
+/**
+ * Build the tools/list entry of a tool
+ */
+export function describeTool(tool: ToolDefinition): ToolDescriptor {
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: jsonSchema(tool.inputSchema),
+    outputSchema: jsonSchema(tool.outputSchema),
+    // Older clients only read the title from the annotations
+    annotations: { title: tool.title, ...tool.annotations },
+  };
+}
+
+/**
+ * JSON Schema of a zod schema, without the $schema keyword
+ */
+function jsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema: _schema, ...rest } = toJsonSchema(schema, { $refStrategy: 'none' });
+  return rest;
+}
+
+/**
+ * Validate tool arguments against the tool's input schema
+ *
+ * Missing arguments are treated as an empty object, so tools without
+ * required arguments can be called without any.
+ *
+ * @returns The parsed arguments with defaults applied
+ * @throws {ToolArgumentsError} If the arguments are invalid
+ */
+export function validateToolArguments<Schema extends z.ZodTypeAny>(
+  tool: ToolDefinition<Schema>,
+  args: unknown
+): z.output<Schema> {
+  const result = tool.inputSchema.safeParse(args ?? {});
+  if (result.success) {
+    return result.data;
+  }
+
+  throw new ToolArgumentsError(
+    tool.name,
+    result.error.issues.map((issue) => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : '(arguments)',
+      message: issue.message,
+    }))
+  );
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { getKuraClient, KuraNoteContent, UpdateNoteParams } from '../../services/kura-client';
+import { RequiredScope } from '../../types/auth';
+import { ToolResult } from '../../types/mcp';
+import { DomainError, ErrorCode } from '../errors';
+import { ClientLogger } from '../logging';
+import { defineTool } from './tool';
+import { noteDetailsSchema, noteSummarySchema } from './note-output';
+
+/**
+ * Fields update_note can change, in the order they are reported
+ */
+const UPDATABLE_FIELDS = ['content', 'title', 'annotation', 'tags', 'contentType'] as const;
+
+/**
+ * Input schema for update_note
+ */
+export const updateNoteInputSchema = z
+  .object({
+    note_id: z
+      .string()
+      .min(1)
+      .describe(
+        'The unique ID of the note to update. You can get note IDs from search results or list_recent_notes.'
+      ),
+    content: z
+      .string()
+      .min(1)
+      .max(100000)
+      .optional()
+      .describe('New content of the note. Replaces the whole content.'),
+    title: z.string().max(500).optional().describe('New title of the note.'),
+    annotation: z
+      .string()
+      .max(2000)
+      .optional()
+      .describe('New annotation of the note. Use an empty string to remove it.'),
+    tags: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('New tags of the note. Replaces all tags; use an empty array to remove them.'),
+    contentType: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('New content type, e.g. "text", "markdown" or "code".'),
+    expected_updated_at: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe(
+        'updatedAt of the note as you last read it (ISO 8601). If the note was changed since, ' +
+          'the update is rejected with a CONFLICT error instead of overwriting the other change. ' +
+          'Advisory only: a change made at the same moment as this update can still be overwritten.'
+      ),
+  })
+  .refine((input) => UPDATABLE_FIELDS.some((field) => input[field] !== undefined), {
+    message: `Provide at least one field to change: ${UPDATABLE_FIELDS.join(', ')}`,
+  });
+
+/**
+ * Input parameters for update_note tool
+ */
+export type UpdateNoteInput = z.infer<typeof updateNoteInputSchema>;
+
+/**
+ * Output schema for update_note
+ */
+export const updateNoteOutputSchema = noteSummarySchema.merge(noteDetailsSchema).extend({
+  updatedFields: z.array(z.enum(UPDATABLE_FIELDS)).describe('Fields that were changed'),
+});
+
+/**
+ * Structured result of update_note
+ */
+export type UpdateNoteOutput = z.infer<typeof updateNoteOutputSchema>;
+
+/**
+ * update_note tool definition
+ */
+export const updateNoteTool = defineTool({
+  name: 'update_note',
+  title: 'Update Note',
+  description:
+    'Change an existing note in place, keeping its ID. Only the fields you provide are changed ' +
+    '(content, title, annotation, tags, contentType). Pass expected_updated_at with the updatedAt ' +
+    'you last saw, so a note changed by someone else in the meantime is not overwritten. The ' +
+    'check is advisory, not a lock: a change landing at the same moment can slip through and ' +
+    'be overwritten.',
+  inputSchema: updateNoteInputSchema,
+  outputSchema: updateNoteOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scopes: [RequiredScope.KURA_NOTES_WRITE],
+  completions: { note_id: 'note_id', tags: 'tag' },
+  execute: (input, ctx) => executeUpdateNote(ctx.accessToken, input, ctx.signal, ctx.log),
+});
+
+/**
+ * Execute the update_note tool
+ *
+ * If expected_updated_at is given, reads the note first and refuses to
+ * update it when it was changed since. Then calls Kura's
+ * /api/content/{id} PATCH endpoint with the fields to change and the
+ * expected updatedAt, which Kura can check with the write. Where Kura does
+ * not check it, a change between the read and the write goes unnoticed, so
+ * the check is advisory.
+ *
+ * @param accessToken - OAuth access token to authenticate with Kura
+ * @param input - Note ID, fields to change and optional precondition
+ * @param signal - Optional signal to cancel the call
+ * @param log - Optional logger for messages to the client
+ * @returns MCP tool result with the updated note
+ * @throws {KuraApiError} If the Kura API call fails
+ * @throws {DomainError} CONFLICT if the note was changed after expected_updated_at
+ * @throws {NoteConflictError} If Kura rejects the update as conflicting
+ */
+export async function executeUpdateNote(
+  accessToken: string,
+  input: UpdateNoteInput,
+  signal?: AbortSignal,
+  log?: ClientLogger
+): Promise<ToolResult<UpdateNoteOutput>> {
+  // Get Kura API client
+  const kuraClient = getKuraClient();
+
+  if (input.expected_updated_at) {
+    const current = await kuraClient.getNote(
+      accessToken,
+      input.note_id,
+      signal,
+      log?.child('kura')
+    );
+    assertUnchangedSince(current, input.expected_updated_at);
+  }
+
+  const params: UpdateNoteParams = {
+    content: input.content,
+    title: input.title,
+    annotation: input.annotation,
+    tags: input.tags,
+    contentType: input.contentType,
+    expectedUpdatedAt: input.expected_updated_at,
+  };
+  const updatedFields = UPDATABLE_FIELDS.filter((field) => input[field] !== undefined);
+
+  // Call Kura's update note API
+  const note = await kuraClient.updateNote(
+    accessToken,
+    input.note_id,
+    params,
+    signal,
+    log?.child('kura')
+  );
+
+  log?.log('info', `Updated note ${note.id}`, { noteId: note.id, updatedFields });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatUpdateSuccess(note, updatedFields),
+      },
+    ],
+    structuredContent: {
+      id: note.id,
+      title: note.title,
+      contentType: note.contentType,
+      tags: note.metadata.tags ?? [],
+      createdAt: note.metadata.createdAt,
+      updatedAt: note.metadata.updatedAt,
+      source: note.metadata.source,
+      annotation: note.metadata.annotation,
+      updatedFields,
+    },
+    isError: false,
+  };
+}
+
+/**
+ * Reject the update if the note was changed after the time the caller expects
+ *
+ * Timestamps are compared as instants, so different ISO 8601 spellings of
+ * the same time match.
+ *
+ * @throws {DomainError} CONFLICT if the note's updatedAt differs
+ */
+function assertUnchangedSince(note: KuraNoteContent, expectedUpdatedAt: string): void {
+  const actualUpdatedAt = note.metadata.updatedAt;
+  if (
+    actualUpdatedAt &&
+    new Date(actualUpdatedAt).getTime() === new Date(expectedUpdatedAt).getTime()
+  ) {
+    return;
+  }
+
+  throw new DomainError(
+    ErrorCode.CONFLICT,
+    `Note "${note.id}" was changed at ${actualUpdatedAt ?? 'an unknown time'}, ` +
+      `not ${expectedUpdatedAt} as expected. It was not updated.`,
+    { noteId: note.id, expectedUpdatedAt, actualUpdatedAt }
+  );
+}
+
+/**
+ * Format successful update response
+ */
+function formatUpdateSuccess(note: KuraNoteContent, updatedFields: readonly string[]): string {
+  let text = `# ✏️ Note Updated Successfully\n\n`;
+  text += `**Note ID:** ${note.id}\n`;
+  text += `**Title:** ${note.title}\n`;
+  text += `**Changed:** ${updatedFields.join(', ')}\n`;
+
+  if (note.metadata.updatedAt) {
+    text += `**Updated At:** ${note.metadata.updatedAt}\n`;
+  }
+
+  if (note.metadata.tags && note.metadata.tags.length > 0) {
+    text += `**Tags:** ${note.metadata.tags.map((tag) => `#${tag}`).join(', ')}\n`;
+  }
+
+  text += `\n---\n\n`;
+  text += `Use updatedAt as expected_updated_at for the next change to this note.`;
+
+  return text;
+}
@@ -13,13 +13,18 @@ declare module 'fastify' {
 }
 
 /**
- * Build WWW-Authenticate header value for 401 responses
+ * Build WWW-Authenticate header value for 401 and 403 responses
  *
  * @param error - Optional error code
  * @param errorDescription - Optional error description
+ * @param scope - Optional space-separated scopes needed (insufficient_scope)
  * @returns WWW-Authenticate header value
  */
-function buildWWWAuthenticateHeader(error?: string, errorDescription?: string): string {
+export function buildWWWAuthenticateHeader(
+  error?: string,
+  errorDescription?: string,
+  scope?: string
+): string {
   const parts = ['Bearer realm="KOmcp MCP Server"'];
 
   // Add resource metadata URL for OAuth discovery
@@ -32,6 +37,9 @@ function buildWWWAuthenticateHeader(error?: string, errorDescription?: string):
   if (errorDescription) {
     parts.push(`error_description="${errorDescription}"`);
   }
+  if (scope) {
+    parts.push(`scope="${scope}"`);
+  }
 
   return parts.join(', ');
 }
@@ -172,12 +180,23 @@ export function requireScopes(requiredScopes: string[]) {
 
     if (!hasAllScopes) {
       const missingScopes = requiredScopes.filter((scope) => !request.user!.scopes.includes(scope));
+      const errorDescription = `Token lacks required scopes: ${missingScopes.join(', ')}`;
 
-      reply.status(403).send({
-        error: 'insufficient_scope',
-        error_description: `Token lacks required scopes: ${missingScopes.join(', ')}`,
-        scope: requiredScopes.join(' '),
-      });
+      reply
+        .status(403)
+        .header(
+          'WWW-Authenticate',
+          buildWWWAuthenticateHeader(
+            'insufficient_scope',
+            errorDescription,
+            requiredScopes.join(' ')
+          )
+        )
+        .send({
+          error: 'insufficient_scope',
+          error_description: errorDescription,
+          scope: requiredScopes.join(' '),
+        });
       return;
     }
   };
@@ -0,0 +1,178 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth';
+import { McpSession, sessionManager } from '../mcp/session';
+import { dispatchRequest, dispatchNotification, dispatchResponse } from '../mcp/dispatcher';
+import {
+  JsonRpcErrorCode,
+  JsonRpcResponse,
+  classifyMessages,
+  createErrorResponse,
+} from '../mcp/protocol';
+import { noteWatcher } from '../mcp/subscriptions';
+import { bearerToken, buildContext, handleBodyParseError, sendEventStream } from './mcp';
+
+/**
+ * Path of the endpoint clients POST their messages to
+ */
+const MESSAGES_PATH = '/messages';
+
+/**
+ * Register the legacy HTTP+SSE transport (protocol version 2024-11-05)
+ *
+ * For clients that predate Streamable HTTP:
+ * - GET /sse: Opens a session and its SSE stream. The first event,
+ *   "endpoint", names the URL to POST messages to.
+ * - POST /messages?sessionId=...: Client-to-server JSON-RPC messages,
+ *   single or batched. Answered with 202; responses and notifications go
+ *   out on the session's SSE stream, the responses to a batch as one array.
+ *
+ * Authentication and method dispatch are the same as for /mcp. The session
+ * ends when the SSE stream closes.
+ */
+export async function registerLegacySseRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * GET /sse
+   *
+   * Opens a legacy session
+   *
+   * Authentication: Required (Bearer token)
+   */
+  server.get(
+    '/sse',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = sessionManager.create(request.user!.userId, request.user!.clientId);
+      session.accessToken = bearerToken(request);
+
+      const stream = session.openStandaloneStream();
+      stream.onClose(() => {
+        void sessionManager.delete(session.id);
+        request.log.info({ sessionId: session.id }, 'Legacy SSE session closed');
+      });
+      noteWatcher.watchSession(session);
+
+      sendEventStream(reply, stream);
+      stream.writeEvent('endpoint', `${MESSAGES_PATH}?sessionId=${session.id}`);
+
+      request.log.info({ sessionId: session.id }, 'Legacy SSE session opened');
+      return reply;
+    }
+  );
+
+  /**
+   * POST /messages?sessionId=...
+   *
+   * Receives the JSON-RPC messages of a legacy session
+   *
+   * Authentication: Required (Bearer token, same user as the session)
+   */
+  server.post(
+    MESSAGES_PATH,
+    {
+      preHandler: [authMiddleware],
+      errorHandler: handleBodyParseError,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { sessionId } = request.query as { sessionId?: string };
+      if (!sessionId) {
+        return reply
+          .status(400)
+          .send(
+            createErrorResponse(
+              null,
+              JsonRpcErrorCode.INVALID_REQUEST,
+              'Bad Request: sessionId query parameter is required'
+            )
+          );
+      }
+
+      // Legacy sessions only exist while their stream is open
+      const session = sessionManager.get(sessionId, request.user!.userId);
+      if (!session || !session.hasStandaloneStream) {
+        return reply
+          .status(404)
+          .send(
+            createErrorResponse(
+              null,
+              JsonRpcErrorCode.INVALID_REQUEST,
+              'Session not found. Open a new SSE stream.'
+            )
+          );
+      }
+      session.accessToken = bearerToken(request);
+
+      const isBatch = Array.isArray(request.body);
+      const messages: unknown[] = isBatch ? (request.body as unknown[]) : [request.body];
+      if (messages.length === 0) {
+        return reply
+          .status(400)
+          .send(
+            createErrorResponse(
+              null,
+              JsonRpcErrorCode.INVALID_REQUEST,
+              'Invalid Request: batch must not be empty'
+            )
+          );
+      }
+
+      const { requests, notifications, responses, errors } = classifyMessages(messages);
+
+      // Notifications first, in order, so e.g. notifications/initialized
+      // takes effect before later requests
+      for (const notification of notifications) {
+        dispatchNotification(buildContext(request, session, notification), notification);
+      }
+      for (const response of responses) {
+        dispatchResponse(buildContext(request, session), response);
+      }
+
+      // Responses go out on the stream once every request has finished,
+      // as one array for a batch
+      void Promise.all(
+        requests.map(async (rpcRequest) => {
+          try {
+            return await dispatchRequest(buildContext(request, session, rpcRequest), rpcRequest);
+          } catch (error) {
+            request.log.error({ error, requestId: rpcRequest.id }, 'Error handling MCP request');
+            return createErrorResponse(
+              rpcRequest.id,
+              JsonRpcErrorCode.INTERNAL_ERROR,
+              'Internal server error'
+            );
+          }
+        })
+      )
+        .then((results) => {
+          // Cancelled requests get no response
+          const answered = results.filter((r): r is JsonRpcResponse => r !== null);
+          return sendResponses(session, [...errors, ...answered], isBatch);
+        })
+        .catch((error: unknown) => request.log.error({ error }, 'Error sending MCP responses'));
+
+      return reply.status(202).send();
+    }
+  );
+}
+
+/**
+ * Send responses on the session's stream: an array for a batch, otherwise each on its own
+ */
+async function sendResponses(
+  session: McpSession,
+  responses: JsonRpcResponse[],
+  isBatch: boolean
+): Promise<void> {
+  if (responses.length === 0) {
+    return;
+  }
+
+  if (isBatch) {
+    await session.send(responses);
+  } else {
+    for (const response of responses) {
+      await session.send(response);
+    }
+  }
+}
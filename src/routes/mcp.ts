@@ -1,61 +1,52 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { authMiddleware } from '../middleware/auth';
-import { RequiredScope } from '../types/auth';
-import { MCP_TOOLS } from '../mcp/schemas';
-import { executeSearchNotes } from '../mcp/tools/search-notes';
-import { executeCreateNote, CreateNoteInput } from '../mcp/tools/create-note';
-import { executeGetNote, GetNoteInput } from '../mcp/tools/get-note';
-import { executeListRecentNotes } from '../mcp/tools/list-recent-notes';
-import { executeDeleteNote, DeleteNoteInput } from '../mcp/tools/delete-note';
-import { SearchNotesInput } from '../types/mcp';
+import { FastifyInstance, FastifyRequest, FastifyReply, FastifyError } from 'fastify';
+import { authMiddleware, buildWWWAuthenticateHeader } from '../middleware/auth';
+import { SUPPORTED_PROTOCOL_VERSIONS } from '../mcp/lifecycle';
+import { sessionManager, McpSession } from '../mcp/session';
+import { SseStream } from '../mcp/sse';
+import { noteWatcher } from '../mcp/subscriptions';
+import { ErrorCode } from '../mcp/errors';
+import {
+  dispatchRequest,
+  dispatchNotification,
+  dispatchResponse,
+  RequestContext,
+} from '../mcp/dispatcher';
+import {
+  JsonRpcErrorCode,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  classifyMessages,
+  createErrorResponse,
+} from '../mcp/protocol';
 
 /**
- * JSON-RPC 2.0 request structure
+ * Header carrying the session id issued on initialize
  */
-interface JsonRpcRequest {
-  jsonrpc: '2.0';
-  id?: string | number | null;
-  method: string;
-  params?: any;
-}
+const SESSION_HEADER = 'mcp-session-id';
 
 /**
- * JSON-RPC 2.0 response structure
+ * Header carrying the negotiated protocol version on requests after initialize
  */
-interface JsonRpcResponse {
-  jsonrpc: '2.0';
-  id?: string | number | null;
-  result?: any;
-  error?: JsonRpcError;
-}
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
 
 /**
- * JSON-RPC 2.0 error structure
+ * Header a reconnecting client sends to resume an SSE stream
  */
-interface JsonRpcError {
-  code: number;
-  message: string;
-  data?: any;
-}
-
-/**
- * JSON-RPC 2.0 error codes
- */
-enum JsonRpcErrorCode {
-  PARSE_ERROR = -32700,
-  INVALID_REQUEST = -32600,
-  METHOD_NOT_FOUND = -32601,
-  INVALID_PARAMS = -32602,
-  INTERNAL_ERROR = -32603,
-}
+const LAST_EVENT_ID_HEADER = 'last-event-id';
 
 /**
  * Register MCP protocol routes
  *
- * Implements JSON-RPC 2.0 over HTTP for MCP protocol.
- * Supports methods:
- * - tools/list: Returns available tools
- * - tools/call: Executes a tool
+ * Implements the MCP Streamable HTTP transport:
+ * - POST /mcp: Client-to-server JSON-RPC messages, single or batched.
+ *   Responses are sent as a JSON body, or as an SSE stream when the client
+ *   accepts text/event-stream, so a call can send notifications before its
+ *   result. Bodies with only notifications or responses get 202.
+ * - GET /mcp: Standalone SSE stream for server-to-client messages
+ * - DELETE /mcp: Terminates the session
+ *
+ * The initialize response carries an Mcp-Session-Id header that the client
+ * must send on every later request.
  *
  * All endpoints require OAuth2 authentication and appropriate scopes.
  */
@@ -72,581 +63,431 @@ export async function registerMcpRoutes(server: FastifyInstance): Promise<void>
     '/mcp',
     {
       preHandler: [authMiddleware],
+      errorHandler: handleBodyParseError,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        // Parse JSON-RPC request
-        const rpcRequest = request.body as JsonRpcRequest;
+        // A body is a single message or a JSON-RPC batch (array of messages)
+        const isBatch = Array.isArray(request.body);
+        const messages: unknown[] = isBatch ? (request.body as unknown[]) : [request.body];
+
+        if (messages.length === 0) {
+          return reply
+            .status(400)
+            .send(
+              createErrorResponse(
+                null,
+                JsonRpcErrorCode.INVALID_REQUEST,
+                'Invalid Request: batch must not be empty'
+              )
+            );
+        }
+
+        const { requests, notifications, responses, errors } = classifyMessages(messages);
 
-        // Validate JSON-RPC structure
-        if (rpcRequest.jsonrpc !== '2.0') {
-          return reply.status(400).send(
+        // initialize starts a new session and must be sent on its own
+        const initRequest = requests.find((r) => r.method === 'initialize');
+        if (initRequest && messages.length === 1) {
+          return handleInitializeRequest(request, reply, initRequest, isBatch);
+        }
+        if (initRequest) {
+          requests.splice(requests.indexOf(initRequest), 1);
+          errors.push(
             createErrorResponse(
-              rpcRequest.id,
+              initRequest.id,
               JsonRpcErrorCode.INVALID_REQUEST,
-              'Invalid JSON-RPC version. Must be "2.0"'
+              'initialize must not be sent as part of a batch'
             )
           );
         }
 
-        if (!rpcRequest.method || typeof rpcRequest.method !== 'string') {
-          return reply.status(400).send(
-            createErrorResponse(
-              rpcRequest.id,
-              JsonRpcErrorCode.INVALID_REQUEST,
-              'Missing or invalid method field'
-            )
-          );
+        // Everything else must name an existing session
+        const session = resolveSession(request, reply);
+        if (!session) {
+          return reply;
         }
 
-        // Route to appropriate handler
-        switch (rpcRequest.method) {
-          case 'tools/list':
-            return handleToolsList(request, reply, rpcRequest);
+        // Notifications first, in order, so e.g. notifications/initialized
+        // takes effect before requests in the same batch
+        for (const notification of notifications) {
+          dispatchNotification(buildContext(request, session, notification), notification);
+        }
+        for (const response of responses) {
+          dispatchResponse(buildContext(request, session), response);
+        }
 
-          case 'tools/call':
-            return handleToolsCall(request, reply, rpcRequest);
+        // Only notifications and responses: acknowledge without a body
+        if (requests.length === 0 && errors.length === 0) {
+          return reply.status(202).send();
+        }
 
-          default:
-            return reply.status(404).send(
-              createErrorResponse(
-                rpcRequest.id,
-                JsonRpcErrorCode.METHOD_NOT_FOUND,
-                `Method not found: ${rpcRequest.method}`
-              )
+        // Stream the responses when the client can take SSE
+        if (requests.length > 0 && acceptsEventStream(request)) {
+          const requestIds = requests.map((r) => r.id ?? null);
+          const stream = session.openRequestStream(requestIds);
+          sendEventStream(reply, stream);
+
+          void (async () => {
+            // Any id of the batch routes to its shared stream
+            for (const error of errors) {
+              await session.send(error, requestIds[0]);
+            }
+
+            await Promise.all(
+              requests.map(async (rpcRequest) => {
+                const requestId = rpcRequest.id ?? null;
+                try {
+                  const response = await dispatchRequest(
+                    buildContext(request, session, rpcRequest),
+                    rpcRequest
+                  );
+                  if (response) {
+                    await session.send(response, requestId);
+                  }
+                } catch (error) {
+                  request.log.error({ error, requestId }, 'Error handling MCP request');
+                  await session.send(
+                    createErrorResponse(
+                      requestId,
+                      JsonRpcErrorCode.INTERNAL_ERROR,
+                      'Internal server error'
+                    ),
+                    requestId
+                  );
+                } finally {
+                  // Closes the stream once every request of the POST is done
+                  session.completeRequest(requestId);
+                }
+              })
             );
+          })().catch((error: unknown) => {
+            request.log.error({ error }, 'Error streaming MCP responses');
+            // Do not leave the client waiting on a stream nothing writes to
+            requestIds.forEach((requestId) => session.completeRequest(requestId));
+          });
+
+          return reply;
+        }
+
+        // Requests of a batch run concurrently
+        const results = await Promise.all(
+          requests.map((rpcRequest) =>
+            dispatchRequest(buildContext(request, session, rpcRequest), rpcRequest)
+          )
+        );
+        // Cancelled requests get no response entry
+        const allResponses = [
+          ...errors,
+          ...results.filter((r): r is JsonRpcResponse => r !== null),
+        ];
+
+        if (allResponses.length === 0) {
+          return reply.status(202).send();
         }
+
+        return sendResponse(reply, isBatch ? allResponses : allResponses[0]!);
       } catch (error) {
         request.log.error({ error }, 'Error handling MCP request');
-        return reply.status(500).send(
-          createErrorResponse(
-            null,
-            JsonRpcErrorCode.INTERNAL_ERROR,
-            'Internal server error'
-          )
+        return sendResponse(
+          reply,
+          createErrorResponse(null, JsonRpcErrorCode.INTERNAL_ERROR, 'Internal server error')
         );
       }
     }
   );
-}
-
-/**
- * Handle tools/list method
- *
- * Returns list of available tools that the user can call.
- * Requires mcp:tools:read scope.
- */
-async function handleToolsList(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest
-): Promise<void> {
-  // Check required scope
-  const user = (request as any).user;
-  if (!user || !user.scopes.includes(RequiredScope.TOOLS_READ)) {
-    return reply.status(403).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Insufficient scope. Required: mcp:tools:read',
-        { required_scope: RequiredScope.TOOLS_READ }
-      )
-    );
-  }
-
-  // Return available tools
-  return reply.send(
-    createSuccessResponse(rpcRequest.id, {
-      tools: MCP_TOOLS,
-    })
-  );
-}
-
-/**
- * Handle tools/call method
- *
- * Executes a tool with provided parameters.
- * Requires mcp:tools:execute scope.
- */
-async function handleToolsCall(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest
-): Promise<void> {
-  // Check required scope
-  const user = (request as any).user;
-  if (!user || !user.scopes.includes(RequiredScope.TOOLS_EXECUTE)) {
-    return reply.status(403).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Insufficient scope. Required: mcp:tools:execute',
-        { required_scope: RequiredScope.TOOLS_EXECUTE }
-      )
-    );
-  }
-
-  // Validate params structure
-  const params = rpcRequest.params;
-  if (!params || typeof params !== 'object') {
-    return reply.status(400).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INVALID_PARAMS,
-        'Missing or invalid params field'
-      )
-    );
-  }
 
-  const { name, arguments: toolArgs } = params;
-
-  // Validate tool name
-  if (!name || typeof name !== 'string') {
-    return reply.status(400).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INVALID_PARAMS,
-        'Missing or invalid tool name'
-      )
-    );
-  }
-
-  // Route to appropriate tool executor
-  switch (name) {
-    case 'search_kura_notes':
-      return handleSearchKuraNotes(request, reply, rpcRequest, toolArgs);
-
-    case 'create_note':
-      return handleCreateNote(request, reply, rpcRequest, toolArgs);
-
-    case 'get_note':
-      return handleGetNote(request, reply, rpcRequest, toolArgs);
-
-    case 'list_recent_notes':
-      return handleListRecentNotes(request, reply, rpcRequest, toolArgs);
+  /**
+   * GET /mcp
+   *
+   * Opens a standalone SSE stream for server-initiated notifications and requests.
+   * With a Last-Event-ID header, resumes the stream that event belonged to and
+   * replays the events the client missed.
+   *
+   * Authentication: Required (Bearer token)
+   */
+  server.get(
+    '/mcp',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!acceptsEventStream(request)) {
+        return reply
+          .status(405)
+          .header('Allow', 'POST, DELETE')
+          .send(
+            createErrorResponse(
+              null,
+              JsonRpcErrorCode.INVALID_REQUEST,
+              'Method not allowed: GET requires Accept: text/event-stream'
+            )
+          );
+      }
 
-    case 'delete_note':
-      return handleDeleteNote(request, reply, rpcRequest, toolArgs);
+      const session = resolveSession(request, reply);
+      if (!session) {
+        return reply;
+      }
 
-    default:
-      return reply.status(404).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.METHOD_NOT_FOUND,
-          `Unknown tool: ${name}`,
-          {
-            available_tools: [
-              'search_kura_notes',
-              'create_note',
-              'get_note',
-              'list_recent_notes',
-              'delete_note',
-            ],
+      // Resume a dropped stream if the missed events are still stored
+      const lastEventId = request.headers[LAST_EVENT_ID_HEADER];
+      if (typeof lastEventId === 'string' && lastEventId) {
+        const resumed = await session.resumeStream(lastEventId);
+        if (resumed) {
+          if (session.hasStandaloneStream) {
+            noteWatcher.watchSession(session);
           }
-        )
-      );
-  }
-}
-
-/**
- * Handle search_kura_notes tool execution
- */
-async function handleSearchKuraNotes(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest,
-  toolArgs: any
-): Promise<void> {
-  try {
-    // Validate tool arguments
-    if (!toolArgs || typeof toolArgs !== 'object') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Invalid tool arguments. Expected object.'
-        )
-      );
-    }
-
-    // Validate required query parameter
-    if (!toolArgs.query || typeof toolArgs.query !== 'string') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Missing or invalid "query" parameter'
-        )
-      );
-    }
+          sendEventStream(reply, resumed);
+          request.log.debug({ sessionId: session.id, lastEventId }, 'SSE stream resumed');
+          return reply;
+        }
 
-    // Validate optional parameters
-    if (toolArgs.limit !== undefined) {
-      if (typeof toolArgs.limit !== 'number' || toolArgs.limit < 1 || toolArgs.limit > 50) {
-        return reply.status(400).send(
-          createErrorResponse(
-            rpcRequest.id,
-            JsonRpcErrorCode.INVALID_PARAMS,
-            'Invalid "limit" parameter. Must be a number between 1 and 50.'
-          )
+        request.log.debug(
+          { sessionId: session.id, lastEventId },
+          'Cannot resume SSE stream, event unknown or expired'
         );
       }
-    }
 
-    if (toolArgs.min_similarity !== undefined) {
-      if (
-        typeof toolArgs.min_similarity !== 'number' ||
-        toolArgs.min_similarity < 0 ||
-        toolArgs.min_similarity > 1
-      ) {
-        return reply.status(400).send(
-          createErrorResponse(
-            rpcRequest.id,
-            JsonRpcErrorCode.INVALID_PARAMS,
-            'Invalid "min_similarity" parameter. Must be a number between 0 and 1.'
-          )
-        );
+      if (session.hasStandaloneStream) {
+        return reply
+          .status(409)
+          .send(
+            createErrorResponse(
+              null,
+              JsonRpcErrorCode.INVALID_REQUEST,
+              'Conflict: a standalone SSE stream is already open for this session'
+            )
+          );
       }
-    }
 
-    // Build search input
-    const searchInput: SearchNotesInput = {
-      query: toolArgs.query,
-      limit: toolArgs.limit,
-      min_similarity: toolArgs.min_similarity,
-    };
-
-    // Get access token from request header
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      request.log.error('Access token not found in request');
-      return reply.status(500).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INTERNAL_ERROR,
-          'Internal server error: Access token not found'
-        )
-      );
-    }
+      const stream = session.openStandaloneStream();
+      noteWatcher.watchSession(session);
+      sendEventStream(reply, stream);
 
-    const accessToken = authHeader.substring(7); // Remove "Bearer " prefix
+      request.log.debug({ sessionId: session.id }, 'Standalone SSE stream opened');
+      return reply;
+    }
+  );
 
-    // Execute search (pass token to Kura API)
-    const result = await executeSearchNotes(accessToken, searchInput);
+  /**
+   * DELETE /mcp
+   *
+   * Terminates the session and closes its streams
+   *
+   * Authentication: Required (Bearer token)
+   */
+  server.delete(
+    '/mcp',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = resolveSession(request, reply);
+      if (!session) {
+        return reply;
+      }
 
-    // Return tool result
-    return reply.send(createSuccessResponse(rpcRequest.id, result));
-  } catch (error) {
-    request.log.error({ error }, 'Error executing search_kura_notes tool');
+      await sessionManager.delete(session.id);
+      request.log.info({ sessionId: session.id }, 'MCP session terminated');
 
-    // Return error response
-    return reply.status(500).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Tool execution failed',
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      )
-    );
-  }
+      return reply.status(204).send();
+    }
+  );
 }
 
 /**
- * Handle create_note tool execution
+ * Handle an initialize request
+ *
+ * Creates a new session and returns its id in the Mcp-Session-Id header.
+ * The response is always a single JSON body.
  */
-async function handleCreateNote(
+async function handleInitializeRequest(
   request: FastifyRequest,
   reply: FastifyReply,
   rpcRequest: JsonRpcRequest,
-  toolArgs: any
-): Promise<void> {
-  try {
-    // Validate tool arguments
-    if (!toolArgs || typeof toolArgs !== 'object') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Invalid tool arguments. Expected object.'
-        )
-      );
-    }
-
-    // Validate required content parameter
-    if (!toolArgs.content || typeof toolArgs.content !== 'string') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Missing or invalid "content" parameter'
-        )
-      );
-    }
+  isBatch: boolean
+): Promise<FastifyReply> {
+  const session = sessionManager.create(request.user!.userId, request.user!.clientId);
+  session.accessToken = bearerToken(request);
+
+  // Nobody knows the new session id yet, so this request cannot be cancelled
+  const response = (await dispatchRequest(buildContext(request, session, rpcRequest), rpcRequest))!;
+
+  if (response.error) {
+    await sessionManager.delete(session.id);
+  } else {
+    reply.header('Mcp-Session-Id', session.id);
+  }
 
-    // Build create input
-    const createInput: CreateNoteInput = {
-      content: toolArgs.content,
-      title: toolArgs.title,
-      annotation: toolArgs.annotation,
-      tags: toolArgs.tags,
-      contentType: toolArgs.contentType,
-    };
-
-    // Get access token
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      request.log.error('Access token not found in request');
-      return reply.status(500).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INTERNAL_ERROR,
-          'Internal server error: Access token not found'
-        )
-      );
-    }
+  return sendResponse(reply, isBatch ? [response] : response);
+}
 
-    const accessToken = authHeader.substring(7);
-
-    // Execute create note
-    const result = await executeCreateNote(accessToken, createInput);
-
-    // Return tool result
-    return reply.send(createSuccessResponse(rpcRequest.id, result));
-  } catch (error) {
-    request.log.error({ error }, 'Error executing create_note tool');
-    return reply.status(500).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Tool execution failed',
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      )
-    );
+/**
+ * Answer unparseable request bodies with a JSON-RPC parse error
+ */
+export function handleBodyParseError(
+  error: FastifyError,
+  request: FastifyRequest,
+  reply: FastifyReply
+): FastifyReply {
+  if (
+    error.code === 'FST_ERR_CTP_INVALID_JSON_BODY' ||
+    error.code === 'FST_ERR_CTP_EMPTY_JSON_BODY' ||
+    error instanceof SyntaxError
+  ) {
+    return reply
+      .status(400)
+      .send(createErrorResponse(null, JsonRpcErrorCode.PARSE_ERROR, 'Parse error: invalid JSON'));
   }
+
+  request.log.error({ error }, 'Error handling MCP request');
+  return reply
+    .status(error.statusCode ?? 500)
+    .send(createErrorResponse(null, JsonRpcErrorCode.INTERNAL_ERROR, 'Internal server error'));
 }
 
 /**
- * Handle get_note tool execution
+ * Find the session named by the Mcp-Session-Id header
+ *
+ * Sends a 400 (missing header or unsupported protocol version) or 404
+ * (unknown session) and returns undefined if the request cannot proceed.
  */
-async function handleGetNote(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest,
-  toolArgs: any
-): Promise<void> {
-  try {
-    // Validate tool arguments
-    if (!toolArgs || typeof toolArgs !== 'object') {
-      return reply.status(400).send(
+function resolveSession(request: FastifyRequest, reply: FastifyReply): McpSession | undefined {
+  const sessionId = request.headers[SESSION_HEADER];
+  if (typeof sessionId !== 'string' || !sessionId) {
+    void reply
+      .status(400)
+      .send(
         createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Invalid tool arguments. Expected object.'
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Bad Request: Mcp-Session-Id header is required'
         )
       );
-    }
+    return undefined;
+  }
 
-    // Validate required note_id parameter
-    if (!toolArgs.note_id || typeof toolArgs.note_id !== 'string') {
-      return reply.status(400).send(
+  const protocolVersion = request.headers[PROTOCOL_VERSION_HEADER];
+  if (
+    typeof protocolVersion === 'string' &&
+    !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+  ) {
+    void reply
+      .status(400)
+      .send(
         createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Missing or invalid "note_id" parameter'
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          `Bad Request: Unsupported protocol version: ${protocolVersion}`
         )
       );
-    }
-
-    // Build get input
-    const getInput: GetNoteInput = {
-      note_id: toolArgs.note_id,
-    };
+    return undefined;
+  }
 
-    // Get access token
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      request.log.error('Access token not found in request');
-      return reply.status(500).send(
+  const session = sessionManager.get(sessionId, request.user!.userId);
+  if (!session) {
+    void reply
+      .status(404)
+      .send(
         createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INTERNAL_ERROR,
-          'Internal server error: Access token not found'
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Session not found. Send a new initialize request.'
         )
       );
-    }
-
-    const accessToken = authHeader.substring(7);
-
-    // Execute get note
-    const result = await executeGetNote(accessToken, getInput);
-
-    // Return tool result
-    return reply.send(createSuccessResponse(rpcRequest.id, result));
-  } catch (error) {
-    request.log.error({ error }, 'Error executing get_note tool');
-    return reply.status(500).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Tool execution failed',
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      )
-    );
+    return undefined;
   }
+
+  session.accessToken = bearerToken(request);
+  return session;
 }
 
 /**
- * Handle list_recent_notes tool execution
+ * Build the transport-independent context for a message
  */
-async function handleListRecentNotes(
+export function buildContext(
   request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest,
-  _toolArgs: any
-): Promise<void> {
-  try {
-    // No arguments needed for list_recent_notes
-
-    // Get access token
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      request.log.error('Access token not found in request');
-      return reply.status(500).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INTERNAL_ERROR,
-          'Internal server error: Access token not found'
-        )
-      );
-    }
-
-    const accessToken = authHeader.substring(7);
-
-    // Execute list recent notes
-    const result = await executeListRecentNotes(accessToken);
-
-    // Return tool result
-    return reply.send(createSuccessResponse(rpcRequest.id, result));
-  } catch (error) {
-    request.log.error({ error }, 'Error executing list_recent_notes tool');
-    return reply.status(500).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Tool execution failed',
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      )
-    );
-  }
+  session: McpSession,
+  rpcRequest?: JsonRpcRequest
+): RequestContext {
+  return {
+    session,
+    user: request.user!,
+    accessToken: bearerToken(request),
+    requestId: rpcRequest?.id ?? undefined,
+    log: request.log,
+  };
 }
 
 /**
- * Handle delete_note tool execution
+ * Access token of an authenticated request
  */
-async function handleDeleteNote(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  rpcRequest: JsonRpcRequest,
-  toolArgs: any
-): Promise<void> {
-  try {
-    // Validate tool arguments
-    if (!toolArgs || typeof toolArgs !== 'object') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Invalid tool arguments. Expected object.'
-        )
-      );
-    }
-
-    // Validate required note_id parameter
-    if (!toolArgs.note_id || typeof toolArgs.note_id !== 'string') {
-      return reply.status(400).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INVALID_PARAMS,
-          'Missing or invalid "note_id" parameter'
-        )
-      );
-    }
-
-    // Build delete input
-    const deleteInput: DeleteNoteInput = {
-      note_id: toolArgs.note_id,
-    };
+export function bearerToken(request: FastifyRequest): string {
+  // authMiddleware has already checked the Bearer scheme
+  return request.headers.authorization!.substring(7);
+}
 
-    // Get access token
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      request.log.error('Access token not found in request');
-      return reply.status(500).send(
-        createErrorResponse(
-          rpcRequest.id,
-          JsonRpcErrorCode.INTERNAL_ERROR,
-          'Internal server error: Access token not found'
-        )
-      );
-    }
+/**
+ * Whether the client accepts an SSE response
+ */
+function acceptsEventStream(request: FastifyRequest): boolean {
+  const accept = request.headers.accept;
+  return typeof accept === 'string' && accept.includes('text/event-stream');
+}
 
-    const accessToken = authHeader.substring(7);
-
-    // Execute delete note
-    const result = await executeDeleteNote(accessToken, deleteInput);
-
-    // Return tool result
-    return reply.send(createSuccessResponse(rpcRequest.id, result));
-  } catch (error) {
-    request.log.error({ error }, 'Error executing delete_note tool');
-    return reply.status(500).send(
-      createErrorResponse(
-        rpcRequest.id,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Tool execution failed',
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      )
-    );
-  }
+/**
+ * Start sending an SSE stream as the response body
+ */
+export function sendEventStream(reply: FastifyReply, stream: SseStream): void {
+  // Response finished or client went away: stop writing to this stream
+  reply.raw.on('close', () => stream.end());
+
+  void reply
+    .status(200)
+    .header('Content-Type', 'text/event-stream')
+    .header('Cache-Control', 'no-cache, no-transform')
+    .header('Connection', 'keep-alive')
+    .header('X-Accel-Buffering', 'no')
+    .send(stream.body);
 }
 
 /**
- * Create JSON-RPC 2.0 success response
+ * Error data of an INSUFFICIENT_SCOPE error
  */
-function createSuccessResponse(id: string | number | null | undefined, result: any): JsonRpcResponse {
-  return {
-    jsonrpc: '2.0',
-    id: id ?? null,
-    result,
-  };
+interface ScopeErrorData {
+  code: ErrorCode.INSUFFICIENT_SCOPE;
+  error_description: string;
+  /** Space-separated scopes the request needs */
+  scope: string;
 }
 
 /**
- * Create JSON-RPC 2.0 error response
+ * Send a (non-streamed) JSON-RPC response or batch of responses
+ *
+ * Every JSON-RPC response goes out with HTTP 200; errors are told apart by
+ * their code and data. Scope failures also carry an RFC 6750
+ * insufficient_scope challenge in WWW-Authenticate, naming the scopes the
+ * request needs; for a batch, the scopes of all its scope failures.
  */
-function createErrorResponse(
-  id: string | number | null | undefined,
-  code: number,
-  message: string,
-  data?: any
-): JsonRpcResponse {
-  return {
-    jsonrpc: '2.0',
-    id: id ?? null,
-    error: {
-      code,
-      message,
-      ...(data && { data }),
-    },
-  };
+function sendResponse(
+  reply: FastifyReply,
+  response: JsonRpcResponse | JsonRpcResponse[]
+): FastifyReply {
+  const scopeErrors = (Array.isArray(response) ? response : [response])
+    .map((entry) => entry.error?.data as Partial<ScopeErrorData> | undefined)
+    .filter((data): data is ScopeErrorData => data?.code === ErrorCode.INSUFFICIENT_SCOPE);
+
+  if (scopeErrors.length > 0) {
+    const scopes = new Set(scopeErrors.flatMap((data) => data.scope.split(' ')));
+    reply.header(
+      'WWW-Authenticate',
+      buildWWWAuthenticateHeader(
+        'insufficient_scope',
+        scopeErrors[0]!.error_description,
+        [...scopes].join(' ')
+      )
+    );
+  }
+
+  return reply.status(200).send(response);
 }
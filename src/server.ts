@@ -6,6 +6,7 @@ import { config, isDevelopment } from './config/env';
 import { logger } from './config/logger';
 import { wellKnownRoutes } from './routes/well-known';
 import { registerMcpRoutes } from './routes/mcp';
+import { registerLegacySseRoutes } from './routes/legacy-sse';
 import { authMiddleware, requireScopes } from './middleware/auth';
 import { RequiredScope } from './types/auth';
 
@@ -39,8 +40,15 @@ export async function buildServer(): Promise<FastifyInstance> {
   // Register CORS plugin
   await server.register(cors, {
     origin: config.ALLOWED_ORIGINS,
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Mcp-Session-Id',
+      'MCP-Protocol-Version',
+      'Last-Event-ID',
+    ],
+    exposedHeaders: ['Mcp-Session-Id'],
     credentials: true,
     maxAge: 86400, // 24 hours
   });
@@ -98,6 +106,9 @@ export async function buildServer(): Promise<FastifyInstance> {
   // MCP protocol endpoints (requires authentication)
   await registerMcpRoutes(server);
 
+  // Legacy HTTP+SSE transport for older MCP clients (requires authentication)
+  await registerLegacySseRoutes(server);
+
   // Add custom API version header to all responses
   server.addHook('onSend', async (_request, reply) => {
     reply.header('X-API-Version', '1.0.0');
@@ -9,6 +9,18 @@
  * - Proper separation of concerns
  */
 
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Extra attempts for GET requests that fail with a 5xx status or a network error
+ */
+const GET_RETRIES = 2;
+
+/**
+ * Wait before the first retry; doubles with every further retry
+ */
+const RETRY_DELAY_MS = 200;
+
 /**
  * Kura search result item
  */
@@ -67,6 +79,21 @@ export interface CreateNoteParams {
   tags?: string[];
 }
 
+/**
+ * Update note parameters
+ *
+ * Only the fields that are set are changed. tags replaces the whole list.
+ */
+export interface UpdateNoteParams {
+  content?: string;
+  contentType?: string;
+  title?: string;
+  annotation?: string;
+  tags?: string[];
+  /** Only update if the note's updatedAt is still this (ISO 8601) */
+  expectedUpdatedAt?: string;
+}
+
 /**
  * Note content response (for get operations)
  */
@@ -107,6 +134,21 @@ export interface KuraCreateNoteResponse {
   message: string;
 }
 
+/**
+ * Receiver of diagnostics about Kura API calls
+ *
+ * detail holds the request URL, which can contain the search query or a
+ * note ID, and is only meant for debug output. Tokens are never passed.
+ */
+export interface KuraCallLogger {
+  log(
+    level: 'debug' | 'info' | 'warning',
+    message: string,
+    data?: Record<string, unknown>,
+    detail?: Record<string, unknown>
+  ): void;
+}
+
 /**
  * Custom error for Kura API calls
  */
@@ -121,6 +163,30 @@ export class KuraApiError extends Error {
   }
 }
 
+/**
+ * Error for a note ID Kura does not know
+ */
+export class NoteNotFoundError extends KuraApiError {
+  constructor(public noteId: string) {
+    super(`Note with ID "${noteId}" not found`, 404);
+    this.name = 'NoteNotFoundError';
+  }
+}
+
+/**
+ * Error for an update Kura rejected because the note changed in the meantime
+ */
+export class NoteConflictError extends KuraApiError {
+  constructor(
+    public noteId: string,
+    statusCode: number,
+    public expectedUpdatedAt?: string
+  ) {
+    super(`Note "${noteId}" was changed in the meantime. It was not updated.`, statusCode);
+    this.name = 'NoteConflictError';
+  }
+}
+
 /**
  * Kura API Client
  *
@@ -145,10 +211,17 @@ export class KuraClient {
    *
    * @param accessToken - OAuth access token from KOauth
    * @param params - Search parameters
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
    * @returns Search results from Kura
    * @throws {KuraApiError} If the API call fails
    */
-  async search(accessToken: string, params: SearchParams): Promise<KuraSearchResponse> {
+  async search(
+    accessToken: string,
+    params: SearchParams,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
+  ): Promise<KuraSearchResponse> {
     // Build query parameters
     const queryParams = new URLSearchParams();
     queryParams.append('query', params.query);
@@ -177,37 +250,34 @@ export class KuraClient {
     const url = `${this.baseUrl}/api/search?${queryParams.toString()}`;
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'KOmcp/1.0',
+      const response = await this.request(
+        'search',
+        url,
+        {
+          method: 'GET',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
         },
-      });
+        log
+      );
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
 
         if (response.status === 401) {
-          throw new KuraApiError(
-            'Unauthorized: Invalid or expired access token',
-            401
-          );
+          throw new KuraApiError('Unauthorized: Invalid or expired access token', 401);
         }
 
         if (response.status === 403) {
-          throw new KuraApiError(
-            'Forbidden: Insufficient permissions to access Kura',
-            403
-          );
+          throw new KuraApiError('Forbidden: Insufficient permissions to access Kura', 403);
         }
 
         if (response.status === 404) {
-          throw new KuraApiError(
-            'Kura API endpoint not found. Is Kura running?',
-            404
-          );
+          throw new KuraApiError('Kura API endpoint not found. Is Kura running?', 404);
         }
 
         throw new KuraApiError(
@@ -223,6 +293,10 @@ export class KuraClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
       // Network or fetch errors
       if (error instanceof TypeError && error.message.includes('fetch')) {
         throw new KuraApiError(
@@ -247,31 +321,41 @@ export class KuraClient {
    *
    * @param accessToken - OAuth access token from KOauth
    * @param params - Note creation parameters
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
    * @returns Created note response with ID
    * @throws {KuraApiError} If the API call fails
    */
   async createNote(
     accessToken: string,
-    params: CreateNoteParams
+    params: CreateNoteParams,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
   ): Promise<KuraCreateNoteResponse> {
     const url = `${this.baseUrl}/api/capture`;
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'KOmcp/1.0',
+      const response = await this.request(
+        'createNote',
+        url,
+        {
+          method: 'POST',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
+          body: JSON.stringify({
+            content: params.content,
+            contentType: params.contentType || 'text',
+            title: params.title,
+            annotation: params.annotation,
+            tags: params.tags,
+          }),
         },
-        body: JSON.stringify({
-          content: params.content,
-          contentType: params.contentType || 'text',
-          title: params.title,
-          annotation: params.annotation,
-          tags: params.tags,
-        }),
-      });
+        log
+      );
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -288,6 +372,10 @@ export class KuraClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
       throw new KuraApiError(
         `Failed to create note: ${error instanceof Error ? error.message : 'Unknown error'}`,
         undefined,
@@ -303,28 +391,39 @@ export class KuraClient {
    *
    * @param accessToken - OAuth access token from KOauth
    * @param noteId - ID of the note to retrieve
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
    * @returns Note content with full details
    * @throws {KuraApiError} If the API call fails
+   * @throws {NoteNotFoundError} If the note does not exist
    */
-  async getNote(accessToken: string, noteId: string): Promise<KuraNoteContent> {
-    const url = `${this.baseUrl}/api/content/${noteId}`;
+  async getNote(
+    accessToken: string,
+    noteId: string,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
+  ): Promise<KuraNoteContent> {
+    const url = this.contentUrl(noteId);
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'KOmcp/1.0',
+      const response = await this.request(
+        'getNote',
+        url,
+        {
+          method: 'GET',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
         },
-      });
+        log
+      );
 
       if (!response.ok) {
         if (response.status === 404) {
-          throw new KuraApiError(
-            `Note with ID "${noteId}" not found`,
-            404
-          );
+          throw new NoteNotFoundError(noteId);
         }
 
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -341,6 +440,10 @@ export class KuraClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
       throw new KuraApiError(
         `Failed to get note: ${error instanceof Error ? error.message : 'Unknown error'}`,
         undefined,
@@ -349,27 +452,127 @@ export class KuraClient {
     }
   }
 
+  /**
+   * Update a note
+   *
+   * Calls Kura's /api/content/{id} endpoint with PATCH method. Fields left
+   * out of params keep their current value. params.expectedUpdatedAt is sent
+   * along for Kura to check with the write. Kura versions that do not know
+   * the field apply the update regardless, so it is advisory: callers
+   * cannot tell from a successful update that it was checked.
+   *
+   * @param accessToken - OAuth access token from KOauth
+   * @param noteId - ID of the note to update
+   * @param params - Fields to change
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
+   * @returns The updated note
+   * @throws {KuraApiError} If the API call fails
+   * @throws {NoteNotFoundError} If the note does not exist
+   * @throws {NoteConflictError} If Kura answers 409 or 412, i.e. rejects the
+   *   update because the note changed
+   */
+  async updateNote(
+    accessToken: string,
+    noteId: string,
+    params: UpdateNoteParams,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
+  ): Promise<KuraNoteContent> {
+    const url = this.contentUrl(noteId);
+
+    try {
+      const response = await this.request(
+        'updateNote',
+        url,
+        {
+          method: 'PATCH',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
+          body: JSON.stringify({
+            content: params.content,
+            contentType: params.contentType,
+            title: params.title,
+            annotation: params.annotation,
+            tags: params.tags,
+            expectedUpdatedAt: params.expectedUpdatedAt,
+          }),
+        },
+        log
+      );
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new NoteNotFoundError(noteId);
+        }
+
+        if (response.status === 409 || response.status === 412) {
+          throw new NoteConflictError(noteId, response.status, params.expectedUpdatedAt);
+        }
+
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new KuraApiError(
+          `Failed to update note (${response.status}): ${errorText}`,
+          response.status
+        );
+      }
+
+      const data = await response.json();
+      return data as KuraNoteContent;
+    } catch (error) {
+      if (error instanceof KuraApiError) {
+        throw error;
+      }
+
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
+      throw new KuraApiError(
+        `Failed to update note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        error
+      );
+    }
+  }
+
   /**
    * List recent notes
    *
    * Calls Kura's /api/content/recent endpoint to get the 20 most recent notes
    *
    * @param accessToken - OAuth access token from KOauth
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
    * @returns List of recent notes
    * @throws {KuraApiError} If the API call fails
    */
-  async listRecentNotes(accessToken: string): Promise<KuraRecentNotesResponse> {
+  async listRecentNotes(
+    accessToken: string,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
+  ): Promise<KuraRecentNotesResponse> {
     const url = `${this.baseUrl}/api/content/recent`;
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'KOmcp/1.0',
+      const response = await this.request(
+        'listRecentNotes',
+        url,
+        {
+          method: 'GET',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
         },
-      });
+        log
+      );
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -386,6 +589,10 @@ export class KuraClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
       throw new KuraApiError(
         `Failed to list recent notes: ${error instanceof Error ? error.message : 'Unknown error'}`,
         undefined,
@@ -401,28 +608,39 @@ export class KuraClient {
    *
    * @param accessToken - OAuth access token from KOauth
    * @param noteId - ID of the note to delete
+   * @param signal - Optional signal to abort the upstream request
+   * @param log - Optional receiver of latency and status diagnostics
    * @returns Success status
    * @throws {KuraApiError} If the API call fails
+   * @throws {NoteNotFoundError} If the note does not exist
    */
-  async deleteNote(accessToken: string, noteId: string): Promise<{ success: boolean; message: string }> {
-    const url = `${this.baseUrl}/api/content/${noteId}`;
+  async deleteNote(
+    accessToken: string,
+    noteId: string,
+    signal?: AbortSignal,
+    log?: KuraCallLogger
+  ): Promise<{ success: boolean; message: string }> {
+    const url = this.contentUrl(noteId);
 
     try {
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'KOmcp/1.0',
+      const response = await this.request(
+        'deleteNote',
+        url,
+        {
+          method: 'DELETE',
+          signal,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'KOmcp/1.0',
+          },
         },
-      });
+        log
+      );
 
       if (!response.ok) {
         if (response.status === 404) {
-          throw new KuraApiError(
-            `Note with ID "${noteId}" not found`,
-            404
-          );
+          throw new NoteNotFoundError(noteId);
         }
 
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -441,6 +659,10 @@ export class KuraClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw new KuraApiError('Kura request was cancelled', undefined, error);
+      }
+
       throw new KuraApiError(
         `Failed to delete note: ${error instanceof Error ? error.message : 'Unknown error'}`,
         undefined,
@@ -449,6 +671,86 @@ export class KuraClient {
     }
   }
 
+  /**
+   * URL of a note's /api/content/{id} endpoint
+   *
+   * The id is encoded as a single path segment, so it cannot reach other
+   * endpoints. "." and ".." would still be resolved away by the URL parser.
+   *
+   * @throws {NoteNotFoundError} If the id is "." or ".."
+   */
+  private contentUrl(noteId: string): string {
+    if (noteId === '.' || noteId === '..') {
+      throw new NoteNotFoundError(noteId);
+    }
+
+    return `${this.baseUrl}/api/content/${encodeURIComponent(noteId)}`;
+  }
+
+  /**
+   * Call the Kura API and report the latency and status of each attempt
+   *
+   * GET requests are idempotent, so they are retried up to GET_RETRIES
+   * times when Kura answers with a 5xx status or cannot be reached. Other
+   * methods are sent once.
+   */
+  private async request(
+    operation: string,
+    url: string,
+    init: RequestInit,
+    log?: KuraCallLogger
+  ): Promise<Response> {
+    const attempts = init.method === 'GET' ? GET_RETRIES + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      const canRetry = attempt < attempts && !init.signal?.aborted;
+
+      try {
+        const response = await fetch(url, init);
+        const durationMs = Date.now() - startedAt;
+        const retrying = canRetry && response.status >= 500;
+
+        log?.log(
+          response.ok ? 'info' : 'warning',
+          `Kura ${operation} answered ${response.status} in ${durationMs} ms` +
+            (retrying ? `, retrying (attempt ${attempt} of ${attempts})` : ''),
+          { operation, status: response.status, durationMs, attempt },
+          { method: init.method, url }
+        );
+
+        if (!retrying) {
+          return response;
+        }
+        await response.body?.cancel();
+      } catch (error) {
+        const durationMs = Date.now() - startedAt;
+        const retrying = canRetry && !init.signal?.aborted;
+
+        log?.log(
+          'warning',
+          `Kura ${operation} failed after ${durationMs} ms` +
+            (retrying ? `, retrying (attempt ${attempt} of ${attempts})` : ''),
+          {
+            operation,
+            durationMs,
+            attempt,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+          { method: init.method, url }
+        );
+
+        if (!retrying) {
+          throw error;
+        }
+      }
+
+      await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1), undefined, {
+        signal: init.signal ?? undefined,
+      });
+    }
+  }
+
   /**
    * Health check
    *
@@ -0,0 +1,75 @@
+import { readFile } from 'node:fs/promises';
+import { config } from './config/env';
+import { logger } from './config/logger';
+import { StdioTransport } from './mcp/stdio';
+
+/**
+ * Entry point for stdio mode (`--stdio`)
+ *
+ * Speaks MCP over stdin/stdout for desktop clients and IDEs that start the
+ * server as a subprocess. The Kura access token is taken from
+ * KURA_ACCESS_TOKEN or read from KURA_ACCESS_TOKEN_FILE. All logs go to
+ * stderr.
+ *
+ * Resolves when the client closes stdin.
+ */
+export async function startStdioServer(): Promise<void> {
+  const getAccessToken = await createTokenSource();
+
+  logger.info(
+    {
+      kuraUrl: process.env['KURA_URL'],
+      tokenSource: config.KURA_ACCESS_TOKEN ? 'KURA_ACCESS_TOKEN' : 'KURA_ACCESS_TOKEN_FILE',
+    },
+    'Starting KOmcp MCP Server (stdio)'
+  );
+
+  const transport = new StdioTransport({
+    input: process.stdin,
+    output: process.stdout,
+    getAccessToken,
+    log: logger.child({ transport: 'stdio' }),
+  });
+
+  await transport.run();
+  logger.info('stdin closed, KOmcp MCP Server (stdio) stopped');
+}
+
+/**
+ * Build the function that supplies the Kura access token
+ *
+ * A token file is read again for every message, so a token refreshed by
+ * another process is picked up without a restart. If the file cannot be
+ * read later on, the last token read is used.
+ *
+ * @throws {Error} If no token is configured or the token file cannot be read
+ */
+async function createTokenSource(): Promise<() => Promise<string>> {
+  const token = config.KURA_ACCESS_TOKEN;
+  if (token) {
+    return () => Promise.resolve(token);
+  }
+
+  const tokenFile = config.KURA_ACCESS_TOKEN_FILE;
+  if (!tokenFile) {
+    throw new Error('stdio mode needs KURA_ACCESS_TOKEN or KURA_ACCESS_TOKEN_FILE');
+  }
+
+  const readToken = async (): Promise<string> => {
+    const contents = (await readFile(tokenFile, 'utf8')).trim();
+    if (!contents) {
+      throw new Error(`Token file ${tokenFile} is empty`);
+    }
+    return contents;
+  };
+
+  let lastToken = await readToken();
+  return async () => {
+    try {
+      lastToken = await readToken();
+    } catch (error) {
+      logger.warn({ error, tokenFile }, 'Cannot read token file, using the last token');
+    }
+    return lastToken;
+  };
+}
@@ -2,15 +2,6 @@
  * MCP (Model Context Protocol) types
  */
 
-/**
- * MCP tool input schema for search_kura_notes
- */
-export interface SearchNotesInput {
-  query: string;
-  limit?: number;
-  min_similarity?: number;
-}
-
 /**
  * MCP tool result content
  */
@@ -23,10 +14,34 @@ export interface ToolContent {
 
 /**
  * MCP tool call result
+ *
+ * Successful results carry structuredContent matching the tool's outputSchema
+ * next to the human-readable text.
  */
-export interface ToolResult {
+export interface ToolResult<Structured = Record<string, unknown>> {
   content: ToolContent[];
+  structuredContent?: Structured;
   isError?: boolean;
+  /** Failed calls carry the machine-readable error under _meta.error */
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Behaviour hints of a tool, advertised by tools/list
+ *
+ * Clients use them to decide which calls need the user's confirmation.
+ */
+export interface ToolAnnotations {
+  /** Human-friendly name (also sent as the tool's title) */
+  title?: string;
+  /** The tool does not modify anything */
+  readOnlyHint: boolean;
+  /** The tool may delete or overwrite data (only meaningful if not read-only) */
+  destructiveHint: boolean;
+  /** Repeating a call with the same arguments has no further effect */
+  idempotentHint: boolean;
+  /** The tool reaches beyond the user's notes, e.g. the web */
+  openWorldHint: boolean;
 }
 
 /**
@@ -48,3 +63,222 @@ export interface MCPError {
   message: string;
   data?: unknown;
 }
+
+/**
+ * Name and version of an MCP implementation (client or server)
+ */
+export interface Implementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+/**
+ * Severity of a log message sent to the client (RFC 5424 levels)
+ */
+export type LoggingLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+/**
+ * Params of notifications/message
+ */
+export interface LoggingMessageParams {
+  level: LoggingLevel;
+  /** Component that produced the message */
+  logger?: string;
+  data: unknown;
+}
+
+/**
+ * Token a client sends in _meta.progressToken to receive progress updates
+ */
+export type ProgressToken = string | number;
+
+/**
+ * Params of notifications/progress
+ */
+export interface ProgressNotificationParams {
+  progressToken: ProgressToken;
+  /** Increases with every notification */
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Capabilities advertised by the server during initialization
+ */
+export interface ServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  completions?: Record<string, never>;
+  logging?: Record<string, never>;
+}
+
+/**
+ * Capabilities advertised by the client during initialization
+ */
+export interface ClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, unknown>;
+  elicitation?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+}
+
+/**
+ * Parameters of the initialize request
+ */
+export interface InitializeParams {
+  protocolVersion: string;
+  capabilities: ClientCapabilities;
+  clientInfo: Implementation;
+}
+
+/**
+ * Result of the initialize request
+ */
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: ServerCapabilities;
+  serverInfo: Implementation;
+  instructions?: string;
+}
+
+/**
+ * Optional hints attached to resources
+ */
+export interface ResourceAnnotations {
+  audience?: Array<'user' | 'assistant'>;
+  priority?: number;
+  lastModified?: string;
+}
+
+/**
+ * Concrete resource returned by resources/list
+ */
+export interface Resource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  annotations?: ResourceAnnotations;
+}
+
+/**
+ * Parameterized resource (RFC 6570 URI template) returned by resources/templates/list
+ */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Text contents of a resource returned by resources/read
+ */
+export interface TextResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+/**
+ * Result of resources/list
+ */
+export interface ListResourcesResult {
+  resources: Resource[];
+  nextCursor?: string;
+}
+
+/**
+ * Result of resources/templates/list
+ */
+export interface ListResourceTemplatesResult {
+  resourceTemplates: ResourceTemplate[];
+  nextCursor?: string;
+}
+
+/**
+ * Result of resources/read
+ */
+export interface ReadResourceResult {
+  contents: TextResourceContents[];
+}
+
+/**
+ * Argument accepted by a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt template returned by prompts/list
+ */
+export interface Prompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+}
+
+/**
+ * Message of a rendered prompt
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Result of prompts/list
+ */
+export interface ListPromptsResult {
+  prompts: Prompt[];
+  nextCursor?: string;
+}
+
+/**
+ * Result of prompts/get
+ */
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+/**
+ * What a completion/complete request completes an argument of
+ *
+ * ref/tool is a KOmcp extension for tool arguments such as note_id.
+ */
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string }
+  | { type: 'ref/tool'; name: string };
+
+/**
+ * Result of completion/complete
+ */
+export interface CompleteResult {
+  completion: {
+    values: string[];
+    total?: number;
+    hasMore?: boolean;
+  };
+  /** Human-readable labels for values, e.g. note titles for note IDs */
+  _meta?: { labels?: Record<string, string> };
+}
@@ -0,0 +1,15 @@
+/**
+ * Environment for unit tests
+ *
+ * src/config/env.ts validates the environment on import, so modules that
+ * read the config need the required variables set.
+ */
+
+process.env['NODE_ENV'] = 'test';
+process.env['BASE_URL'] ??= 'http://localhost:3003';
+process.env['KOAUTH_URL'] ??= 'http://localhost:3001';
+process.env['KOAUTH_JWKS_URL'] ??= 'http://localhost:3001/.well-known/jwks.json';
+process.env['KOAUTH_CLIENT_REGISTRATION_URL'] ??= 'http://localhost:3001/oauth/register';
+process.env['KURA_DATABASE_URL'] ??= 'postgresql://localhost/kura_test';
+process.env['KURA_URL'] ??= 'http://kura.test';
+process.env['LOG_LEVEL'] ??= 'fatal';
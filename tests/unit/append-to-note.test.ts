@@ -0,0 +1,197 @@
+import {
+  appendToNoteInputSchema,
+  applyEdit,
+  executeAppendToNote,
+} from '../../src/mcp/tools/append-to-note';
+import { DomainError, ErrorCode } from '../../src/mcp/errors';
+import { getKuraClient, KuraNoteContent, NoteConflictError } from '../../src/services/kura-client';
+
+const LOG = '# Project log\n\n## Decisions\n- Use Fastify\n\n## Open Questions\n- Hosting?\n';
+
+function input(fields: Record<string, unknown>) {
+  return appendToNoteInputSchema.parse({ note_id: 'abc', text: '- Use PostgreSQL', ...fields });
+}
+
+function note(content: string, updatedAt?: string): KuraNoteContent {
+  return {
+    id: 'abc',
+    content,
+    contentType: 'markdown',
+    title: 'Project log',
+    metadata: { updatedAt },
+  };
+}
+
+describe('appendToNoteInputSchema', () => {
+  it('should require heading for position under_heading', () => {
+    const result = appendToNoteInputSchema.safeParse({
+      note_id: 'abc',
+      text: 'x',
+      position: 'under_heading',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject heading for other positions', () => {
+    const result = appendToNoteInputSchema.safeParse({
+      note_id: 'abc',
+      text: 'x',
+      position: 'end',
+      heading: 'Decisions',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['heading'] });
+  });
+});
+
+describe('applyEdit', () => {
+  it('should add the text at the end, keeping the final newline', () => {
+    const edit = applyEdit('First\n', input({}));
+
+    expect(edit.content).toBe('First\n- Use PostgreSQL\n');
+    expect(edit.start).toBe(1);
+  });
+
+  it('should add the text at the start', () => {
+    expect(applyEdit('First', input({ position: 'start' })).content).toBe(
+      '- Use PostgreSQL\nFirst'
+    );
+  });
+
+  it('should add the text after the last line of the section below the heading', () => {
+    const edit = applyEdit(LOG, input({ position: 'under_heading', heading: 'decisions' }));
+
+    expect(edit.content).toBe(
+      '# Project log\n\n## Decisions\n- Use Fastify\n- Use PostgreSQL\n\n## Open Questions\n- Hosting?\n'
+    );
+    expect(edit.heading).toBe('## Decisions');
+  });
+
+  it('should include subsections in the section of a heading', () => {
+    const content = '## Decisions\n- A\n### Details\n- B\n## Next\n';
+
+    const edit = applyEdit(content, input({ position: 'under_heading', heading: '## Decisions' }));
+
+    expect(edit.content).toBe('## Decisions\n- A\n### Details\n- B\n- Use PostgreSQL\n## Next\n');
+  });
+
+  it('should only match a heading of the given level', () => {
+    const content = '### Decisions\n- A\n## Decisions\n- B\n';
+
+    const edit = applyEdit(content, input({ position: 'under_heading', heading: '## Decisions' }));
+
+    expect(edit.start).toBe(4);
+  });
+
+  it('should ignore headings inside code blocks', () => {
+    const content = '```\n## Decisions\n```\n## Decisions\n- A\n';
+
+    const edit = applyEdit(content, input({ position: 'under_heading', heading: 'Decisions' }));
+
+    expect(edit.content).toBe('```\n## Decisions\n```\n## Decisions\n- A\n- Use PostgreSQL\n');
+  });
+
+  it('should keep CRLF line endings', () => {
+    const edit = applyEdit(
+      '## Decisions\r\n- A\r\n',
+      input({ position: 'under_heading', heading: 'Decisions' })
+    );
+
+    expect(edit.content).toBe('## Decisions\r\n- A\r\n- Use PostgreSQL\r\n');
+  });
+
+  it('should list the headings when the heading does not exist', () => {
+    const edit = () => applyEdit(LOG, input({ position: 'under_heading', heading: 'Risks' }));
+
+    expect(edit).toThrow(DomainError);
+    expect(edit).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.VALIDATION_FAILED,
+        details: {
+          field: 'heading',
+          headings: ['# Project log', '## Decisions', '## Open Questions'],
+        },
+      })
+    );
+  });
+  it('should add a missing heading at the end with create_heading', () => {
+    const edit = applyEdit(
+      'Intro\n',
+      input({ position: 'under_heading', heading: 'Risks', create_heading: true })
+    );
+
+    expect(edit.content).toBe('Intro\n\n## Risks\n- Use PostgreSQL\n');
+    expect(edit.headingCreated).toBe(true);
+  });
+});
+
+describe('executeAppendToNote', () => {
+  let getNote: jest.SpyInstance;
+  let updateNote: jest.SpyInstance;
+
+  beforeEach(() => {
+    getNote = jest.spyOn(getKuraClient(), 'getNote');
+    updateNote = jest.spyOn(getKuraClient(), 'updateNote');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the updatedAt it read as precondition', async () => {
+    getNote.mockResolvedValue(note('First\n', '2025-01-15T10:30:00Z'));
+    updateNote.mockResolvedValue(note('First\n- Use PostgreSQL\n', '2025-01-15T10:31:00Z'));
+
+    await executeAppendToNote('token', input({}));
+
+    expect(updateNote).toHaveBeenCalledWith(
+      'token',
+      'abc',
+      { content: 'First\n- Use PostgreSQL\n', expectedUpdatedAt: '2025-01-15T10:30:00Z' },
+      undefined,
+      undefined
+    );
+  });
+
+  it('should redo the edit on a fresh read after a conflict', async () => {
+    getNote
+      .mockResolvedValueOnce(note('First\n', '2025-01-15T10:30:00Z'))
+      .mockResolvedValueOnce(note('First\nSecond\n', '2025-01-15T10:31:00Z'));
+    updateNote
+      .mockRejectedValueOnce(new NoteConflictError('abc', 412, '2025-01-15T10:30:00Z'))
+      .mockResolvedValueOnce(note('First\nSecond\n- Use PostgreSQL\n', '2025-01-15T10:32:00Z'));
+
+    const result = await executeAppendToNote('token', input({}));
+
+    expect(updateNote).toHaveBeenLastCalledWith(
+      'token',
+      'abc',
+      {
+        content: 'First\nSecond\n- Use PostgreSQL\n',
+        expectedUpdatedAt: '2025-01-15T10:31:00Z',
+      },
+      undefined,
+      undefined
+    );
+    expect(result.structuredContent).toMatchObject({ startLine: 3, addedLines: 1 });
+  });
+
+  it('should give up after the second conflict', async () => {
+    getNote.mockResolvedValue(note('First\n', '2025-01-15T10:30:00Z'));
+    updateNote.mockRejectedValue(new NoteConflictError('abc', 409));
+
+    await expect(executeAppendToNote('token', input({}))).rejects.toBeInstanceOf(NoteConflictError);
+    expect(updateNote).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not write a note without updatedAt', async () => {
+    getNote.mockResolvedValue(note('First\n'));
+
+    await expect(executeAppendToNote('token', input({}))).rejects.toMatchObject({
+      code: ErrorCode.CONFLICT,
+    });
+    expect(updateNote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { CompletionCache } from '../../src/mcp/completion';
+import { getKuraClient, KuraRecentNotesResponse } from '../../src/services/kura-client';
+
+const RECENT: KuraRecentNotesResponse = { notes: [], total: 0 };
+
+describe('CompletionCache', () => {
+  let kuraSignal: AbortSignal | undefined;
+  let resolveKura: (value: KuraRecentNotesResponse) => void;
+  let listRecentNotes: jest.SpyInstance;
+
+  beforeEach(() => {
+    listRecentNotes = jest
+      .spyOn(getKuraClient(), 'listRecentNotes')
+      .mockImplementation((_accessToken, signal) => {
+        kuraSignal = signal;
+        return new Promise((resolve, reject) => {
+          resolveKura = resolve;
+          signal?.addEventListener('abort', () => reject(signal.reason));
+        });
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should share one Kura request between concurrent callers', async () => {
+    const cache = new CompletionCache(60_000);
+    const ctx = { userId: 'user-1', accessToken: 'token' };
+
+    const first = cache.recentNotes(ctx);
+    const second = cache.recentNotes(ctx);
+    resolveKura(RECENT);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([RECENT, RECENT]);
+    expect(listRecentNotes).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting when the caller cancels, without aborting the shared request', async () => {
+    const cache = new CompletionCache(60_000);
+    const cancelled = new AbortController();
+
+    const first = cache.recentNotes({
+      userId: 'user-1',
+      accessToken: 't',
+      signal: cancelled.signal,
+    });
+    const second = cache.recentNotes({ userId: 'user-1', accessToken: 't' });
+    cancelled.abort('Cancelled');
+
+    await expect(first).rejects.toThrow('Kura request was cancelled');
+    expect(kuraSignal?.aborted).toBe(false);
+    resolveKura(RECENT);
+    await expect(second).resolves.toBe(RECENT);
+  });
+
+  it('should abort the Kura request once every caller has cancelled', async () => {
+    const cache = new CompletionCache(60_000);
+    const cancelled = new AbortController();
+
+    const pending = cache.recentNotes({
+      userId: 'user-1',
+      accessToken: 'token',
+      signal: cancelled.signal,
+    });
+    cancelled.abort('Cancelled');
+
+    await expect(pending).rejects.toThrow('Kura request was cancelled');
+    expect(kuraSignal?.aborted).toBe(true);
+  });
+
+  it('should start a new request after the last caller cancelled', async () => {
+    const cache = new CompletionCache(60_000);
+    const cancelled = new AbortController();
+    const pending = cache.recentNotes({
+      userId: 'user-1',
+      accessToken: 'token',
+      signal: cancelled.signal,
+    });
+    cancelled.abort('Cancelled');
+    await expect(pending).rejects.toThrow('Kura request was cancelled');
+
+    const retried = cache.recentNotes({ userId: 'user-1', accessToken: 'token' });
+    resolveKura(RECENT);
+
+    await expect(retried).resolves.toBe(RECENT);
+    expect(listRecentNotes).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { ConfirmationTokenStore, ToolConfirmation } from '../../src/mcp/confirmation';
+import { DomainError, ErrorCode } from '../../src/mcp/errors';
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { McpSession } from '../../src/mcp/session';
+
+function createSession(): McpSession {
+  return new McpSession(
+    'session-1',
+    'user-1',
+    'client-1',
+    new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 })
+  );
+}
+
+const REQUEST = {
+  subject: 'note-1',
+  message: 'Delete the note "Deploy"?',
+  label: 'Delete this note permanently',
+};
+
+describe('ConfirmationTokenStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should redeem a token once', () => {
+    const store = new ConfirmationTokenStore();
+    const { token } = store.issue('user-1', 'delete_note', 'note-1');
+
+    expect(store.redeem(token, 'user-1', 'delete_note', 'note-1')).toBe(true);
+    expect(store.redeem(token, 'user-1', 'delete_note', 'note-1')).toBe(false);
+  });
+
+  it('should reject a token for another user, tool or subject', () => {
+    const store = new ConfirmationTokenStore();
+    const { token } = store.issue('user-1', 'delete_note', 'note-1');
+
+    expect(store.redeem(token, 'user-2', 'delete_note', 'note-1')).toBe(false);
+    expect(store.redeem(token, 'user-1', 'update_note', 'note-1')).toBe(false);
+    expect(store.redeem(token, 'user-1', 'delete_note', 'note-2')).toBe(false);
+    expect(store.redeem(token, 'user-1', 'delete_note', 'note-1')).toBe(true);
+  });
+
+  it('should reject an expired token', () => {
+    jest.useFakeTimers();
+    const store = new ConfirmationTokenStore();
+    const { token, expiresAt } = store.issue('user-1', 'delete_note', 'note-1');
+
+    jest.setSystemTime(expiresAt);
+
+    expect(store.redeem(token, 'user-1', 'delete_note', 'note-1')).toBe(false);
+  });
+
+  it('should reject unknown tokens', () => {
+    const store = new ConfirmationTokenStore();
+
+    expect(store.redeem('made-up', 'user-1', 'delete_note', 'note-1')).toBe(false);
+  });
+});
+
+describe('ToolConfirmation', () => {
+  it('should ask for a token when the client cannot elicit, and accept it on the second call', async () => {
+    const confirmation = new ToolConfirmation(createSession(), 'delete_note');
+
+    const error = await confirmation.confirm(REQUEST).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error).toMatchObject({ code: ErrorCode.CONFIRMATION_REQUIRED });
+    const token = (error as DomainError).details['confirmationToken'] as string;
+    await expect(confirmation.confirm({ ...REQUEST, token })).resolves.toBe(true);
+  });
+
+  it('should reject an invalid token', async () => {
+    const confirmation = new ToolConfirmation(createSession(), 'delete_note');
+
+    await expect(confirmation.confirm({ ...REQUEST, token: 'made-up' })).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_FAILED,
+    });
+  });
+
+  it('should confirm through elicitation when the user accepts', async () => {
+    const session = createSession();
+    session.clientCapabilities = { elicitation: {} };
+    const request = jest
+      .spyOn(session, 'request')
+      .mockResolvedValue({ action: 'accept', content: { confirm: true } });
+    const confirmation = new ToolConfirmation(session, 'delete_note', 3);
+
+    await expect(confirmation.confirm(REQUEST)).resolves.toBe(true);
+    expect(request).toHaveBeenCalledWith(
+      'elicitation/create',
+      expect.objectContaining({ message: REQUEST.message }),
+      expect.objectContaining({ relatedRequestId: 3 })
+    );
+  });
+
+  it('should not confirm when the user accepts without checking the box', async () => {
+    const session = createSession();
+    session.clientCapabilities = { elicitation: {} };
+    jest.spyOn(session, 'request').mockResolvedValue({ action: 'accept', content: {} });
+    const confirmation = new ToolConfirmation(session, 'delete_note');
+
+    await expect(confirmation.confirm(REQUEST)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { FastifyBaseLogger } from 'fastify';
+import pino from 'pino';
+import { dispatchRequest, RequestContext } from '../../src/mcp/dispatcher';
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { ErrorCode } from '../../src/mcp/errors';
+import { JsonRpcRequest } from '../../src/mcp/protocol';
+import { McpSession } from '../../src/mcp/session';
+import { RequiredScope } from '../../src/types/auth';
+
+async function createContext(scopes: string[]): Promise<RequestContext> {
+  const ctx: RequestContext = {
+    session: new McpSession(
+      'session-1',
+      'user-1',
+      'client-1',
+      new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 })
+    ),
+    user: { userId: 'user-1', clientId: 'client-1', scopes },
+    accessToken: 'token',
+    log: pino({ level: 'silent' }) as FastifyBaseLogger,
+  };
+
+  await dispatchRequest(ctx, {
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    },
+  });
+
+  return ctx;
+}
+
+function unsubscribe(uri: string): JsonRpcRequest {
+  return { jsonrpc: '2.0', id: 1, method: 'resources/unsubscribe', params: { uri } };
+}
+
+describe('dispatchRequest', () => {
+  describe('resources/unsubscribe', () => {
+    it('should require the kura:notes:read scope', async () => {
+      const ctx = await createContext([RequiredScope.TOOLS_READ]);
+
+      const response = await dispatchRequest(ctx, unsubscribe('kura://notes/abc'));
+
+      expect(response).toMatchObject({
+        id: 1,
+        error: { data: { error: 'insufficient_scope', scope: RequiredScope.KURA_NOTES_READ } },
+      });
+    });
+
+    it('should succeed with the kura:notes:read scope', async () => {
+      const ctx = await createContext([RequiredScope.KURA_NOTES_READ]);
+
+      const response = await dispatchRequest(ctx, unsubscribe('kura://notes/abc'));
+
+      expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    });
+  });
+});
+
+describe('request params', () => {
+  it('should reject initialize params without clientInfo', async () => {
+    const ctx = await createContext([]);
+
+    const response = await dispatchRequest(ctx, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {} },
+    });
+
+    expect(response?.error?.data).toMatchObject({ code: ErrorCode.VALIDATION_FAILED });
+  });
+
+  it('should reject an unknown log level', async () => {
+    const ctx = await createContext([]);
+
+    const response = await dispatchRequest(ctx, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'logging/setLevel',
+      params: { level: 'verbose' },
+    });
+
+    expect(response?.error?.data).toMatchObject({
+      code: ErrorCode.VALIDATION_FAILED,
+      field: 'level',
+    });
+    expect(ctx.session.logLevel).toBe('warning');
+  });
+
+  it('should reject a cursor that is not a string', async () => {
+    const ctx = await createContext([]);
+
+    const response = await dispatchRequest(ctx, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'prompts/list',
+      params: { cursor: 42 },
+    });
+
+    expect(response?.error?.data).toMatchObject({ field: 'cursor' });
+  });
+});
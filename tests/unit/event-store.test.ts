@@ -0,0 +1,100 @@
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { JsonRpcMessage, JsonRpcPayload } from '../../src/mcp/protocol';
+
+function message(id: number): JsonRpcMessage {
+  return { jsonrpc: '2.0', id, result: {} };
+}
+
+async function replay(
+  store: InMemoryEventStore,
+  sessionId: string,
+  lastEventId: string
+): Promise<{ streamId: string | undefined; replayed: Array<[string, JsonRpcPayload]> }> {
+  const replayed: Array<[string, JsonRpcPayload]> = [];
+  const streamId = await store.replayEventsAfter(sessionId, lastEventId, (eventId, msg) =>
+    replayed.push([eventId, msg])
+  );
+  return { streamId, replayed };
+}
+
+describe('InMemoryEventStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('replayEventsAfter', () => {
+    it('should replay the events after the given one on the same stream only', async () => {
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 });
+      const first = await store.storeEvent('s1', 'a', message(1));
+      await store.storeEvent('s1', 'b', message(2));
+      const third = await store.storeEvent('s1', 'a', message(3));
+
+      const { streamId, replayed } = await replay(store, 's1', first);
+
+      expect(streamId).toBe('a');
+      expect(replayed).toEqual([[third, message(3)]]);
+    });
+
+    it('should return undefined for an unknown event id or session', async () => {
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 });
+      const eventId = await store.storeEvent('s1', 'a', message(1));
+
+      expect((await replay(store, 's1', 'a:999')).streamId).toBeUndefined();
+      expect((await replay(store, 's2', eventId)).streamId).toBeUndefined();
+    });
+
+    it('should not replay events of another session', async () => {
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 });
+      const eventId = await store.storeEvent('s1', 'a', message(1));
+      await store.storeEvent('s2', 'a', message(2));
+
+      const { replayed } = await replay(store, 's1', eventId);
+
+      expect(replayed).toEqual([]);
+    });
+  });
+
+  describe('pruning', () => {
+    it('should forget events older than the TTL', async () => {
+      jest.useFakeTimers();
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 1_000 });
+      const eventId = await store.storeEvent('s1', 'a', message(1));
+
+      jest.advanceTimersByTime(1_001);
+
+      expect((await replay(store, 's1', eventId)).streamId).toBeUndefined();
+    });
+
+    it('should keep events within the TTL', async () => {
+      jest.useFakeTimers();
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 1_000 });
+      const eventId = await store.storeEvent('s1', 'a', message(1));
+      await store.storeEvent('s1', 'a', message(2));
+
+      jest.advanceTimersByTime(999);
+
+      expect((await replay(store, 's1', eventId)).replayed).toHaveLength(1);
+    });
+
+    it('should drop the oldest events beyond the size limit', async () => {
+      const store = new InMemoryEventStore({ maxEventsPerSession: 2, ttlMs: 60_000 });
+      const first = await store.storeEvent('s1', 'a', message(1));
+      const second = await store.storeEvent('s1', 'a', message(2));
+      await store.storeEvent('s1', 'a', message(3));
+
+      expect((await replay(store, 's1', first)).streamId).toBeUndefined();
+      expect((await replay(store, 's1', second)).replayed).toHaveLength(1);
+    });
+  });
+
+  describe('clearSession', () => {
+    it('should drop all events of the session', async () => {
+      const store = new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 });
+      const eventId = await store.storeEvent('s1', 'a', message(1));
+
+      await store.clearSession('s1');
+
+      expect((await replay(store, 's1', eventId)).streamId).toBeUndefined();
+    });
+  });
+});
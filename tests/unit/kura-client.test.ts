@@ -0,0 +1,157 @@
+import {
+  KuraApiError,
+  KuraCallLogger,
+  KuraClient,
+  NoteConflictError,
+  NoteNotFoundError,
+} from '../../src/services/kura-client';
+
+const RECENT = { notes: [], total: 0 };
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('KuraClient', () => {
+  let fetchMock: jest.SpyInstance;
+  let log: KuraCallLogger & { log: jest.Mock };
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+    log = { log: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should retry a GET that failed with a 5xx status', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(503))
+        .mockResolvedValueOnce(jsonResponse(200, RECENT));
+      const client = new KuraClient('http://kura.test');
+
+      const result = await client.listRecentNotes('token', undefined, log);
+
+      expect(result).toEqual(RECENT);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(log.log).toHaveBeenCalledWith(
+        'warning',
+        expect.stringContaining('retrying (attempt 1 of 3)'),
+        expect.objectContaining({ attempt: 1, status: 503, durationMs: expect.any(Number) }),
+        expect.anything()
+      );
+    });
+
+    it('should retry a GET that failed with a network error', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse(200, RECENT));
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.listRecentNotes('token', undefined, log)).resolves.toEqual(RECENT);
+      expect(log.log).toHaveBeenCalledWith(
+        'warning',
+        expect.stringContaining('failed after'),
+        expect.objectContaining({ attempt: 1, error: 'fetch failed' }),
+        expect.anything()
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      fetchMock.mockImplementation(() => Promise.resolve(jsonResponse(502)));
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.listRecentNotes('token')).rejects.toMatchObject({ statusCode: 502 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry a GET that failed with a 4xx status', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(404));
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.getNote('token', 'missing')).rejects.toBeInstanceOf(KuraApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry requests that are not GETs', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(503));
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.deleteNote('token', 'abc')).rejects.toBeInstanceOf(KuraApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a cancelled request', async () => {
+      const controller = new AbortController();
+      fetchMock.mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new DOMException('aborted', 'AbortError'));
+      });
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.listRecentNotes('token', controller.signal)).rejects.toThrow(
+        'Kura request was cancelled'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('updateNote', () => {
+    it('should send the expected updatedAt in the body', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { id: 'abc' }));
+      const client = new KuraClient('http://kura.test');
+
+      await client.updateNote('token', 'abc', {
+        title: 'New title',
+        expectedUpdatedAt: '2025-01-15T10:30:00Z',
+      });
+
+      const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string)).toEqual({
+        title: 'New title',
+        expectedUpdatedAt: '2025-01-15T10:30:00Z',
+      });
+    });
+
+    it.each([409, 412])('should throw a NoteConflictError when Kura answers %i', async (status) => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(status));
+      const client = new KuraClient('http://kura.test');
+      const update = client.updateNote('token', 'abc', {
+        expectedUpdatedAt: '2025-01-15T10:30:00Z',
+      });
+
+      await expect(update).rejects.toBeInstanceOf(NoteConflictError);
+      await expect(update).rejects.toMatchObject({
+        noteId: 'abc',
+        statusCode: status,
+        expectedUpdatedAt: '2025-01-15T10:30:00Z',
+      });
+    });
+  });
+
+  describe('note URLs', () => {
+    it('should encode the note id as a single path segment', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, { success: true }));
+      const client = new KuraClient('http://kura.test');
+
+      await client.deleteNote('token', '../admin?x=1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://kura.test/api/content/..%2Fadmin%3Fx%3D1',
+        expect.anything()
+      );
+    });
+
+    it.each(['.', '..'])('should not call Kura for the note id "%s"', async (noteId) => {
+      const client = new KuraClient('http://kura.test');
+
+      await expect(client.getNote('token', noteId)).rejects.toBeInstanceOf(NoteNotFoundError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { getProgressToken, ProgressReporter } from '../../src/mcp/progress';
+import { McpSession } from '../../src/mcp/session';
+
+function createSession(): McpSession {
+  return new McpSession(
+    'session-1',
+    'user-1',
+    'client-1',
+    new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 })
+  );
+}
+
+describe('getProgressToken', () => {
+  it('should read a string or number token from _meta', () => {
+    expect(getProgressToken({ _meta: { progressToken: 'p-1' } })).toBe('p-1');
+    expect(getProgressToken({ _meta: { progressToken: 7 } })).toBe(7);
+  });
+
+  it('should ignore missing or invalid tokens', () => {
+    expect(getProgressToken(undefined)).toBeUndefined();
+    expect(getProgressToken({ arguments: {} })).toBeUndefined();
+    expect(getProgressToken({ _meta: { progressToken: {} } })).toBeUndefined();
+  });
+});
+
+describe('ProgressReporter', () => {
+  let session: McpSession;
+  let notify: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    session = createSession();
+    notify = jest.spyOn(session, 'notify');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function sentProgress(): unknown[] {
+    return notify.mock.calls.map(([, params]) => (params as { progress: number }).progress);
+  }
+
+  it('should send nothing without a progress token', () => {
+    const reporter = new ProgressReporter(session);
+
+    reporter.report(1, 2);
+
+    expect(reporter.isEnabled).toBe(false);
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should send the first update right away on the related request', () => {
+    const reporter = new ProgressReporter(session, 'p-1', 5);
+
+    reporter.report(1, 10, 'Read 1 of 10 notes');
+
+    expect(notify).toHaveBeenCalledWith(
+      'notifications/progress',
+      { progressToken: 'p-1', progress: 1, total: 10, message: 'Read 1 of 10 notes' },
+      5
+    );
+  });
+
+  it('should hold back updates within the interval and send the latest when it is over', () => {
+    const reporter = new ProgressReporter(session, 'p-1');
+    reporter.report(1, 10);
+
+    reporter.report(2, 10);
+    reporter.report(3, 10);
+
+    expect(sentProgress()).toEqual([1]);
+    jest.advanceTimersByTime(250);
+    expect(sentProgress()).toEqual([1, 3]);
+  });
+
+  it('should send the final update right away and drop the held-back one', () => {
+    const reporter = new ProgressReporter(session, 'p-1');
+    reporter.report(1, 10);
+    reporter.report(5, 10);
+
+    reporter.report(10, 10);
+    jest.advanceTimersByTime(250);
+
+    expect(sentProgress()).toEqual([1, 10]);
+  });
+
+  it('should ignore progress that does not increase', () => {
+    const reporter = new ProgressReporter(session, 'p-1');
+    reporter.report(3);
+
+    jest.advanceTimersByTime(250);
+    reporter.report(3);
+    reporter.report(2);
+
+    expect(sentProgress()).toEqual([3]);
+  });
+
+  it('should not send a held-back update after close', () => {
+    const reporter = new ProgressReporter(session, 'p-1');
+    reporter.report(1, 10);
+    reporter.report(2, 10);
+
+    reporter.close();
+    jest.advanceTimersByTime(250);
+
+    expect(sentProgress()).toEqual([1]);
+  });
+});
@@ -0,0 +1,76 @@
+import { JsonRpcErrorCode, classifyMessages } from '../../src/mcp/protocol';
+
+describe('classifyMessages', () => {
+  it('should sort requests, notifications and responses', () => {
+    const request = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+    const notification = { jsonrpc: '2.0', method: 'notifications/initialized' };
+    const response = { jsonrpc: '2.0', id: 'komcp-1', result: {} };
+    const errorResponse = { jsonrpc: '2.0', id: 'komcp-2', error: { code: -1, message: 'no' } };
+
+    const classified = classifyMessages([request, notification, response, errorResponse]);
+
+    expect(classified).toEqual({
+      requests: [request],
+      notifications: [notification],
+      responses: [response, errorResponse],
+      errors: [],
+    });
+  });
+
+  it('should reject requests with a null id', () => {
+    const { errors, requests } = classifyMessages([{ jsonrpc: '2.0', id: null, method: 'ping' }]);
+
+    expect(requests).toEqual([]);
+    expect(errors[0]).toMatchObject({
+      id: null,
+      error: { code: JsonRpcErrorCode.INVALID_REQUEST },
+    });
+  });
+
+  it('should reject a request that reuses an id of the same batch', () => {
+    const first = { jsonrpc: '2.0', id: 1, method: 'ping' };
+    const other = { jsonrpc: '2.0', id: '1', method: 'ping' };
+
+    const { errors, requests } = classifyMessages([
+      first,
+      other,
+      { ...first, method: 'tools/list' },
+    ]);
+
+    expect(requests).toEqual([first, other]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ id: 1, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+  });
+
+  it('should answer a wrong version with an error carrying the entry id', () => {
+    const { errors, requests } = classifyMessages([{ jsonrpc: '1.0', id: 7, method: 'ping' }]);
+
+    expect(requests).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ id: 7, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+  });
+
+  it('should reject ids that are not strings, numbers or null', () => {
+    const { errors } = classifyMessages([{ jsonrpc: '2.0', id: { x: 1 }, method: 'ping' }]);
+
+    expect(errors[0]).toMatchObject({
+      id: null,
+      error: { code: JsonRpcErrorCode.INVALID_REQUEST },
+    });
+  });
+
+  it('should reject entries without a method', () => {
+    const { errors } = classifyMessages([{ jsonrpc: '2.0', id: 3 }]);
+
+    expect(errors[0]).toMatchObject({ id: 3, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+  });
+
+  it('should report each malformed entry without failing the others', () => {
+    const request = { jsonrpc: '2.0', id: 1, method: 'ping' };
+
+    const classified = classifyMessages([null, 42, request, { jsonrpc: '2.0', method: 5 }]);
+
+    expect(classified.requests).toEqual([request]);
+    expect(classified.errors).toHaveLength(3);
+  });
+});
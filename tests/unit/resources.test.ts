@@ -0,0 +1,21 @@
+import { noteUri, parseResourceUri, tagUri } from '../../src/mcp/resources';
+
+describe('parseResourceUri', () => {
+  it('should parse note, tag and recent URIs', () => {
+    expect(parseResourceUri(noteUri('abc-123'))).toEqual({ kind: 'note', noteId: 'abc-123' });
+    expect(parseResourceUri(tagUri('work/2025'))).toEqual({ kind: 'tag', tag: 'work/2025' });
+    expect(parseResourceUri('kura://recent')).toEqual({ kind: 'recent' });
+  });
+
+  it('should reject note ids that decode to more than one path segment', () => {
+    expect(parseResourceUri('kura://notes/..%2Fadmin')).toBeUndefined();
+    expect(parseResourceUri('kura://notes/a%2Fb')).toBeUndefined();
+    expect(parseResourceUri('kura://notes/..')).toBeUndefined();
+  });
+
+  it('should reject unknown and malformed URIs', () => {
+    expect(parseResourceUri('kura://notes/')).toBeUndefined();
+    expect(parseResourceUri('kura://other/abc')).toBeUndefined();
+    expect(parseResourceUri('kura://notes/%E0%A4%A')).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { executeSearchNotes, searchNotesInputSchema } from '../../src/mcp/tools/search-notes';
+import { getKuraClient, KuraSearchResult } from '../../src/services/kura-client';
+
+function result(id: string, relevanceScore: number): KuraSearchResult {
+  return {
+    id,
+    title: `Note ${id}`,
+    excerpt: `Excerpt of ${id}`,
+    contentType: 'text',
+    relevanceScore,
+    metadata: {},
+  };
+}
+
+describe('executeSearchNotes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count the notes returned apart from the notes Kura matched', async () => {
+    jest.spyOn(getKuraClient(), 'search').mockResolvedValue({
+      query: 'docker',
+      searchMethod: 'combined',
+      totalResults: 40,
+      results: [result('a', 0.9), result('b', 0.75), result('c', 0.4)],
+      timestamp: '2025-06-01T00:00:00Z',
+    });
+
+    const output = await executeSearchNotes(
+      'token',
+      searchNotesInputSchema.parse({ query: 'docker', min_similarity: 0.7 })
+    );
+
+    expect(output.structuredContent).toMatchObject({
+      totalResults: 2,
+      kuraTotalResults: 40,
+      ranking: { belowThreshold: 1 },
+    });
+    expect(output.content[0]).toMatchObject({
+      text: expect.stringContaining('Found **2** notes for "docker" (method: combined), out of 40'),
+    });
+  });
+
+  it('should send a query of filters only to Kura with empty text', async () => {
+    const search = jest.spyOn(getKuraClient(), 'search').mockResolvedValue({
+      query: '',
+      searchMethod: 'fts',
+      totalResults: 1,
+      results: [result('a', 0.9)],
+      timestamp: '2025-06-01T00:00:00Z',
+    });
+
+    const output = await executeSearchNotes(
+      'token',
+      searchNotesInputSchema.parse({ query: 'tag:work after:2025-01-01' })
+    );
+
+    expect(search).toHaveBeenCalledWith(
+      'token',
+      expect.objectContaining({ query: '', tags: ['work'], dateFrom: '2025-01-01' }),
+      undefined,
+      undefined
+    );
+    expect(output.content[0]).toMatchObject({
+      text: expect.stringContaining('Found **1** note (method: fts)'),
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ErrorCode } from '../../src/mcp/errors';
+import {
+  describeQuery,
+  hasLocalChecks,
+  hasOperators,
+  matchesQuery,
+  parseSearchQuery,
+} from '../../src/mcp/tools/search-query';
+import { KuraSearchResult } from '../../src/services/kura-client';
+
+function result(fields: Partial<KuraSearchResult> & { tags?: string[] }): KuraSearchResult {
+  return {
+    id: 'abc',
+    title: fields.title ?? 'Deploy notes',
+    excerpt: fields.excerpt ?? '',
+    contentType: fields.contentType ?? 'text',
+    relevanceScore: 0.9,
+    metadata: { tags: fields.tags ?? [] },
+  };
+}
+
+describe('parseSearchQuery', () => {
+  it('should keep a plain query as text without operators', () => {
+    const parsed = parseSearchQuery('docker deploy');
+
+    expect(parsed.text).toBe('docker deploy');
+    expect(hasOperators(parsed)).toBe(false);
+  });
+
+  it('should turn tag: and type: into filters', () => {
+    const parsed = parseSearchQuery('docker tag:infra TYPE:markdown tag:infra tag:ops');
+
+    expect(parsed).toMatchObject({
+      text: 'docker',
+      tags: ['infra', 'ops'],
+      contentTypes: ['markdown'],
+    });
+  });
+
+  it('should turn after: and before: into a date range', () => {
+    const parsed = parseSearchQuery('docker after:2024-06 before:2025');
+
+    expect(parsed.dateFrom).toBe('2024-06-01');
+    expect(parsed.dateTo).toBe('2024-12-31');
+  });
+
+  it('should narrow the range with several bounds of one kind', () => {
+    const parsed = parseSearchQuery(
+      'docker after:2024 after:2024-03-15 before:2025-01 before:2024-12'
+    );
+
+    expect(parsed.dateFrom).toBe('2024-03-15');
+    expect(parsed.dateTo).toBe('2024-11-30');
+  });
+
+  it('should keep quoted phrases in the text and as local checks', () => {
+    const parsed = parseSearchQuery('"blue green" deploy');
+
+    expect(parsed.text).toBe('blue green deploy');
+    expect(parsed.phrases).toEqual(['blue green']);
+    expect(hasLocalChecks(parsed)).toBe(true);
+  });
+
+  it('should collect exclusions', () => {
+    const parsed = parseSearchQuery('deploy -kubernetes -"helm chart" -tag:old -type:code');
+
+    expect(parsed).toMatchObject({
+      text: 'deploy',
+      excludedTerms: ['kubernetes', 'helm chart'],
+      excludedTags: ['old'],
+      excludedContentTypes: ['code'],
+    });
+  });
+
+  it('should keep unknown word: prefixes as text', () => {
+    expect(parseSearchQuery('error http://example.com').text).toBe('error http://example.com');
+  });
+
+  it.each([
+    ['tag:""', 'an empty value'],
+    ['tag:a,b', 'a value with commas'],
+    ['after:2024-13', 'a month that does not exist'],
+    ['before:2025-02-30', 'a day that does not exist'],
+    ['after:yesterday', 'a value that is no date'],
+    ['-after:2024', 'a negated date'],
+  ])('should reject %s (%s)', (term) => {
+    expect(() => parseSearchQuery(`docker ${term}`)).toThrow(
+      expect.objectContaining({ code: ErrorCode.VALIDATION_FAILED, details: { field: 'query' } })
+    );
+  });
+
+  it('should accept a query of filters only', () => {
+    const parsed = parseSearchQuery('tag:work after:2025-01-01 -docker');
+
+    expect(parsed).toMatchObject({ text: '', tags: ['work'], dateFrom: '2025-01-01' });
+    expect(describeQuery(parsed)).toBe('any text · tag #work · from 2025-01-01 · without "docker"');
+  });
+
+  it('should reject a query with neither text nor filters', () => {
+    expect(() => parseSearchQuery('-docker -tag:infra')).toThrow(/nothing to search for/);
+  });
+});
+
+describe('matchesQuery', () => {
+  it('should require every phrase, ignoring case and spacing', () => {
+    const parsed = parseSearchQuery('"blue  green" deploy');
+
+    expect(matchesQuery(result({ excerpt: 'A Blue Green rollout' }), parsed)).toBe(true);
+    expect(matchesQuery(result({ excerpt: 'A blue rollout' }), parsed)).toBe(false);
+  });
+
+  it('should only exclude whole words', () => {
+    const parsed = parseSearchQuery('deploy -go');
+
+    expect(matchesQuery(result({ excerpt: 'Written in Go.' }), parsed)).toBe(false);
+    expect(matchesQuery(result({ excerpt: 'A good deploy' }), parsed)).toBe(true);
+  });
+
+  it('should leave out excluded tags and content types', () => {
+    const parsed = parseSearchQuery('deploy -tag:Old -type:code');
+
+    expect(matchesQuery(result({ tags: ['old'] }), parsed)).toBe(false);
+    expect(matchesQuery(result({ contentType: 'CODE' }), parsed)).toBe(false);
+    expect(matchesQuery(result({ tags: ['new'] }), parsed)).toBe(true);
+  });
+});
+
+describe('describeQuery', () => {
+  it('should describe each part of the query', () => {
+    const parsed = parseSearchQuery('docker tag:infra after:2024 "compose file" -swarm');
+
+    expect(describeQuery(parsed)).toBe(
+      '"docker compose file" · tag #infra · from 2024-01-01 · containing "compose file" · without "swarm"'
+    );
+  });
+});
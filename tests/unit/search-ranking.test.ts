@@ -0,0 +1,112 @@
+import { candidateLimit, rankResults } from '../../src/mcp/tools/search-ranking';
+import { KuraSearchResult } from '../../src/services/kura-client';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+function result(
+  id: string,
+  relevanceScore: number,
+  fields: { excerpt?: string; updatedAt?: string } = {}
+): KuraSearchResult {
+  return {
+    id,
+    title: `Note ${id}`,
+    excerpt: fields.excerpt ?? `Excerpt of ${id}`,
+    contentType: 'text',
+    relevanceScore,
+    metadata: { updatedAt: fields.updatedAt },
+  };
+}
+
+function ids(results: Array<{ result: KuraSearchResult }>): string[] {
+  return results.map(({ result }) => result.id);
+}
+
+describe('candidateLimit', () => {
+  it('should ask for the limit when Kura order is kept', () => {
+    expect(candidateLimit('relevance', 10)).toBe(10);
+  });
+
+  it('should ask for more candidates when re-ranking or filtering locally', () => {
+    expect(candidateLimit('diverse', 10)).toBe(30);
+    expect(candidateLimit('relevance', 10, true)).toBe(30);
+    expect(candidateLimit('recent', 20)).toBe(50);
+  });
+});
+
+describe('rankResults', () => {
+  it('should drop results below the minimum similarity and count them', () => {
+    const outcome = rankResults([result('a', 0.9), result('b', 0.5), result('c', 0.7)], {
+      mode: 'relevance',
+      minSimilarity: 0.7,
+      limit: 10,
+    });
+
+    expect(ids(outcome.results)).toEqual(['a', 'c']);
+    expect(outcome.belowThreshold).toBe(1);
+  });
+
+  it('should cut the results to the limit', () => {
+    const outcome = rankResults([result('a', 0.9), result('b', 0.8), result('c', 0.7)], {
+      mode: 'relevance',
+      minSimilarity: 0,
+      limit: 2,
+    });
+
+    expect(ids(outcome.results)).toEqual(['a', 'b']);
+    expect(outcome.belowThreshold).toBe(0);
+  });
+
+  it('should move recently updated notes up when boosting recency', () => {
+    const old = result('old', 0.85, { updatedAt: '2023-01-01T00:00:00Z' });
+    const fresh = result('fresh', 0.8, { updatedAt: '2025-05-31T00:00:00Z' });
+
+    const outcome = rankResults([old, fresh], {
+      mode: 'recent',
+      minSimilarity: 0,
+      limit: 10,
+      now: NOW,
+    });
+
+    expect(ids(outcome.results)).toEqual(['fresh', 'old']);
+    expect(outcome.results[0]!.score).toBeGreaterThan(0.8);
+  });
+
+  it('should give notes without a timestamp no recency boost', () => {
+    const outcome = rankResults([result('a', 1)], {
+      mode: 'recent',
+      minSimilarity: 0,
+      limit: 10,
+      now: NOW,
+    });
+
+    expect(outcome.results[0]!.score).toBeCloseTo(0.7);
+  });
+
+  it('should move near-duplicates down when diversifying', () => {
+    const text = 'docker compose deploy production server setup';
+    const outcome = rankResults(
+      [
+        result('a', 0.9, { excerpt: text }),
+        result('b', 0.89, { excerpt: text }),
+        result('c', 0.8, { excerpt: 'kubernetes helm chart values' }),
+      ],
+      { mode: 'diverse', minSimilarity: 0, limit: 3 }
+    );
+
+    expect(ids(outcome.results)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should keep relevance order for distinct results when diversifying', () => {
+    const outcome = rankResults(
+      [
+        result('a', 0.9, { excerpt: 'alpha beta' }),
+        result('b', 0.8, { excerpt: 'gamma delta' }),
+        result('c', 0.7, { excerpt: 'epsilon zeta' }),
+      ],
+      { mode: 'diverse', minSimilarity: 0, limit: 2 }
+    );
+
+    expect(ids(outcome.results)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,48 @@
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { McpSession } from '../../src/mcp/session';
+
+function createSession(): McpSession {
+  return new McpSession(
+    'session-1',
+    'user-1',
+    'client-1',
+    new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 })
+  );
+}
+
+describe('McpSession', () => {
+  describe('cancelRequest', () => {
+    it('should abort the in-flight request with the given id', () => {
+      const session = createSession();
+      const controller = session.beginRequest(1);
+
+      expect(session.cancelRequest(1, 'User cancelled')).toBe(true);
+      expect(controller.signal.aborted).toBe(true);
+      expect(controller.signal.reason).toBe('User cancelled');
+    });
+
+    it('should keep the ids 1 and "1" apart', () => {
+      const session = createSession();
+      const numeric = session.beginRequest(1);
+      const text = session.beginRequest('1');
+
+      session.cancelRequest('1');
+
+      expect(text.signal.aborted).toBe(true);
+      expect(numeric.signal.aborted).toBe(false);
+      expect(session.cancelRequest(1)).toBe(true);
+    });
+
+    it('should not cancel a request that has ended', () => {
+      const session = createSession();
+      session.beginRequest(1);
+      const other = session.beginRequest('1');
+
+      session.endRequest(1);
+
+      expect(session.cancelRequest(1)).toBe(false);
+      expect(session.cancelRequest('1')).toBe(true);
+      expect(other.signal.aborted).toBe(true);
+    });
+  });
+});
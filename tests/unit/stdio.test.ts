@@ -0,0 +1,69 @@
+import { FastifyBaseLogger } from 'fastify';
+import { PassThrough } from 'node:stream';
+import pino from 'pino';
+import * as dispatcher from '../../src/mcp/dispatcher';
+import { JsonRpcErrorCode } from '../../src/mcp/protocol';
+import { StdioTransport } from '../../src/mcp/stdio';
+
+async function runLines(lines: unknown[]): Promise<unknown[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const transport = new StdioTransport({
+    input,
+    output,
+    getAccessToken: () => Promise.resolve('token'),
+    log: pino({ level: 'silent' }) as FastifyBaseLogger,
+  });
+
+  const written: string[] = [];
+  output.on('data', (chunk: Buffer) => written.push(chunk.toString()));
+
+  const running = transport.run();
+  lines.forEach((line) => input.write(`${JSON.stringify(line)}\n`));
+  input.end();
+  await running;
+  // Responses are written once the requests finish, after the input has ended
+  await new Promise((resolve) => setImmediate(resolve));
+
+  return written
+    .join('')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as unknown);
+}
+
+describe('StdioTransport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer a request on its own line', async () => {
+    const written = await runLines([{ jsonrpc: '2.0', id: 1, method: 'ping' }]);
+
+    expect(written).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+
+  it('should answer a request whose dispatch throws with an internal error', async () => {
+    jest.spyOn(dispatcher, 'dispatchRequest').mockRejectedValue(new Error('boom'));
+
+    const written = await runLines([
+      [
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', id: 2, method: 'ping' },
+      ],
+    ]);
+
+    expect(written).toEqual([
+      [
+        expect.objectContaining({
+          id: 1,
+          error: expect.objectContaining({ code: JsonRpcErrorCode.INTERNAL_ERROR }),
+        }),
+        expect.objectContaining({
+          id: 2,
+          error: expect.objectContaining({ code: JsonRpcErrorCode.INTERNAL_ERROR }),
+        }),
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { InMemoryEventStore } from '../../src/mcp/event-store';
+import { McpSession } from '../../src/mcp/session';
+import { NoteWatcher } from '../../src/mcp/subscriptions';
+import { getKuraClient, KuraRecentNotesResponse } from '../../src/services/kura-client';
+
+const INTERVAL_MS = 1_000;
+
+function recentNotes(...ids: string[]): KuraRecentNotesResponse {
+  return {
+    notes: ids.map((id) => ({
+      id,
+      title: `Note ${id}`,
+      contentType: 'text',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    })),
+    total: ids.length,
+  };
+}
+
+function createSession(): McpSession {
+  const session = new McpSession(
+    'session-1',
+    'user-1',
+    'client-1',
+    new InMemoryEventStore({ maxEventsPerSession: 100, ttlMs: 60_000 })
+  );
+  session.accessToken = 'token';
+  return session;
+}
+
+describe('NoteWatcher', () => {
+  let session: McpSession;
+  let listRecentNotes: jest.SpyInstance;
+  let notify: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    session = createSession();
+    listRecentNotes = jest.spyOn(getKuraClient(), 'listRecentNotes');
+    notify = jest.spyOn(session, 'notify');
+  });
+
+  afterEach(async () => {
+    await session.close();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('list changes', () => {
+    it('should notify a session with a standalone stream and no subscriptions', async () => {
+      const watcher = new NoteWatcher(INTERVAL_MS);
+      listRecentNotes.mockResolvedValue(recentNotes('a', 'b'));
+      session.openStandaloneStream();
+      watcher.watchSession(session);
+      await jest.advanceTimersByTimeAsync(0);
+
+      listRecentNotes.mockResolvedValue(recentNotes('c', 'a', 'b'));
+      await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+      expect(notify).toHaveBeenCalledWith('notifications/resources/list_changed');
+    });
+
+    it('should notify when a note is deleted', async () => {
+      const watcher = new NoteWatcher(INTERVAL_MS);
+      listRecentNotes.mockResolvedValue(recentNotes('a', 'b'));
+      session.openStandaloneStream();
+      watcher.watchSession(session);
+      await jest.advanceTimersByTimeAsync(0);
+
+      listRecentNotes.mockResolvedValue(recentNotes('a'));
+      await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+      expect(notify).toHaveBeenCalledWith('notifications/resources/list_changed');
+    });
+
+    it('should not notify when the recent notes are the same', async () => {
+      const watcher = new NoteWatcher(INTERVAL_MS);
+      listRecentNotes.mockResolvedValue(recentNotes('a', 'b'));
+      session.openStandaloneStream();
+      watcher.watchSession(session);
+
+      await jest.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should stop polling once the standalone stream is closed', async () => {
+      const watcher = new NoteWatcher(INTERVAL_MS);
+      listRecentNotes.mockResolvedValue(recentNotes('a'));
+      session.openStandaloneStream().end();
+      watcher.watchSession(session);
+      await jest.advanceTimersByTimeAsync(0);
+      listRecentNotes.mockClear();
+
+      await jest.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+
+      expect(listRecentNotes).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ErrorCode, toDomainError } from '../../src/mcp/errors';
+import { executeUpdateNote, UpdateNoteInput } from '../../src/mcp/tools/update-note';
+import { getKuraClient, KuraNoteContent, NoteConflictError } from '../../src/services/kura-client';
+
+function note(updatedAt: string): KuraNoteContent {
+  return {
+    id: 'abc',
+    content: 'Old content',
+    contentType: 'text',
+    title: 'Deploy',
+    metadata: { tags: [], createdAt: '2025-01-01T00:00:00Z', updatedAt },
+  };
+}
+
+const INPUT: UpdateNoteInput = {
+  note_id: 'abc',
+  content: 'New content',
+  expected_updated_at: '2025-01-15T10:30:00Z',
+};
+
+describe('executeUpdateNote', () => {
+  let getNote: jest.SpyInstance;
+  let updateNote: jest.SpyInstance;
+
+  beforeEach(() => {
+    getNote = jest.spyOn(getKuraClient(), 'getNote');
+    updateNote = jest.spyOn(getKuraClient(), 'updateNote');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the expected updatedAt to Kura with the update', async () => {
+    getNote.mockResolvedValue(note('2025-01-15T10:30:00.000Z'));
+    updateNote.mockResolvedValue(note('2025-01-15T10:45:00Z'));
+
+    const result = await executeUpdateNote('token', INPUT);
+
+    expect(updateNote).toHaveBeenCalledWith(
+      'token',
+      'abc',
+      expect.objectContaining({
+        content: 'New content',
+        expectedUpdatedAt: '2025-01-15T10:30:00Z',
+      }),
+      undefined,
+      undefined
+    );
+    expect(result.structuredContent).toMatchObject({ updatedFields: ['content'] });
+  });
+
+  it('should not update a note that was changed since the expected time', async () => {
+    getNote.mockResolvedValue(note('2025-01-15T10:40:00Z'));
+
+    await expect(executeUpdateNote('token', INPUT)).rejects.toMatchObject({
+      code: ErrorCode.CONFLICT,
+      details: { expectedUpdatedAt: INPUT.expected_updated_at },
+    });
+    expect(updateNote).not.toHaveBeenCalled();
+  });
+
+  it('should report a conflict Kura detects with the write as CONFLICT', async () => {
+    getNote.mockResolvedValue(note('2025-01-15T10:30:00Z'));
+    updateNote.mockRejectedValue(new NoteConflictError('abc', 412, INPUT.expected_updated_at));
+
+    const error = await executeUpdateNote('token', INPUT).catch((e: unknown) => e);
+
+    expect(toDomainError(error)).toMatchObject({
+      code: ErrorCode.CONFLICT,
+      details: { noteId: 'abc', expectedUpdatedAt: INPUT.expected_updated_at },
+    });
+  });
+
+  it('should not read the note without an expected updatedAt', async () => {
+    updateNote.mockResolvedValue(note('2025-01-15T10:45:00Z'));
+
+    await executeUpdateNote('token', { note_id: 'abc', title: 'New title' });
+
+    expect(getNote).not.toHaveBeenCalled();
+  });
+});